@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createAccount, getAccounts } from '@/lib/db';
+import { syncPassiveListener } from '@/lib/passive-listener';
+import { DEFAULT_ADAPTER_ID, getBotAdapter } from '@/lib/bot-adapters';
+
+export async function GET() {
+  try {
+    const accounts = await getAccounts();
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('[API] Error fetching accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, botUsername } = body;
+    const adapter = body.adapter || DEFAULT_ADAPTER_ID;
+
+    if (!name || !botUsername) {
+      return NextResponse.json(
+        { success: false, error: 'Name and bot username are required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      getBotAdapter(adapter);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Unknown adapter' },
+        { status: 400 }
+      );
+    }
+
+    const account = await createAccount({ name, botUsername, adapter });
+
+    // Pick up the new bot if passive listening is on
+    await syncPassiveListener();
+
+    return NextResponse.json({ success: true, account });
+  } catch (error) {
+    console.error('[API] Error creating account:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create account',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { submitCode, getAuthSession } from '@/lib/auth-sessions';
-import { saveTelegramSession } from '@/lib/db';
-import { initializeTelegramClient } from '@/lib/telegram';
+import { linkTelegramSession } from '@/lib/telegram-session';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +15,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const session = getAuthSession(sessionId);
+    const session = await getAuthSession(sessionId);
     if (!session) {
       return NextResponse.json(
         { success: false, error: 'Session not found. Please start over.' },
@@ -30,16 +29,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result, { status: 400 });
     }
 
-    // If authentication is complete, save session and initialize client
+    // If authentication is complete, save the session and switch to it
     if (result.sessionString) {
-      await saveTelegramSession(result.sessionString);
-
-      // Update environment variable for this process
-      process.env.TELEGRAM_SESSION = result.sessionString;
-
-      // Initialize the Telegram client
-      await initializeTelegramClient();
-
+      await linkTelegramSession(result.sessionString);
       console.log('[AUTH] Authentication complete, session saved');
     }
 
@@ -14,7 +14,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const session = getAuthSession(sessionId);
+    const session = await getAuthSession(sessionId);
     if (!session) {
       return NextResponse.json(
         { success: false, error: 'Session not found. Please start over.' },
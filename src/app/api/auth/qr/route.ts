@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getAuthSession, startQrLogin } from '@/lib/auth-sessions';
+
+// Start a QR login for an auth session from /api/auth/start
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getAuthSession(sessionId))) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found. Please start over.' },
+        { status: 404 }
+      );
+    }
+
+    const result = await startQrLogin(sessionId);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[AUTH] Error starting QR login:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start QR login',
+      },
+      { status: 500 }
+    );
+  }
+}
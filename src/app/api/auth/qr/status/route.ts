@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import QRCode from 'qrcode';
+import { getQrLoginStatus } from '@/lib/auth-sessions';
+import { linkTelegramSession } from '@/lib/telegram-session';
+
+// Polled by the auth page: the current QR code, or the next step once it has
+// been scanned. A POST because a scanned code completes the login here.
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { sessionString, qrUrl, ...result } = await getQrLoginStatus(sessionId);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    // If authentication is complete, save the session and switch to it
+    if (sessionString) {
+      await linkTelegramSession(sessionString);
+      console.log('[AUTH] Authentication complete, session saved');
+    }
+
+    return NextResponse.json({
+      ...result,
+      qrCode: qrUrl ? await QRCode.toDataURL(qrUrl, { margin: 1, width: 256 }) : undefined,
+    });
+  } catch (error) {
+    console.error('[AUTH] Error checking QR login:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check QR login',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getTelegramSessionInfo, logOutTelegramSession } from '@/lib/telegram-session';
+
+export async function GET() {
+  try {
+    const session = await getTelegramSessionInfo();
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('[AUTH] Error fetching Telegram session:', error);
+    return NextResponse.json({ error: 'Failed to fetch Telegram session' }, { status: 500 });
+  }
+}
+
+// Log out of Telegram: revoke the session and delete it
+export async function DELETE() {
+  try {
+    const hadEnvSession = !!process.env.TELEGRAM_SESSION;
+    const { revoked } = await logOutTelegramSession();
+
+    return NextResponse.json({
+      success: true,
+      revoked,
+      warning: hadEnvSession
+        ? 'Remove TELEGRAM_SESSION from your environment, or it will be used again after a restart.'
+        : undefined,
+    });
+  } catch (error) {
+    console.error('[AUTH] Error logging out of Telegram:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to log out of Telegram',
+      },
+      { status: 500 }
+    );
+  }
+}
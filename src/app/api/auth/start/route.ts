@@ -21,7 +21,7 @@ export async function POST() {
     const sessionId = randomUUID();
 
     try {
-      createAuthSession(sessionId, apiId, apiHash);
+      await createAuthSession(sessionId);
     } catch (error) {
       return NextResponse.json(
         {
@@ -1,14 +1,16 @@
 import { NextResponse } from 'next/server';
 import { getTelegramClient } from '@/lib/telegram';
+import { getTelegramSessionSource } from '@/lib/telegram-session';
+import { getAccounts } from '@/lib/db';
 
 export async function GET() {
   try {
     const apiId = process.env.TELEGRAM_API_ID;
     const apiHash = process.env.TELEGRAM_API_HASH;
-    const session = process.env.TELEGRAM_SESSION;
-    const botUsername = process.env.TARGET_BOT_USERNAME;
+    const hasSession = (await getTelegramSessionSource()) !== null;
+    const accounts = await getAccounts();
 
-    const configured = !!(apiId && apiHash && session && botUsername);
+    const configured = !!(apiId && apiHash && hasSession && accounts.length > 0);
     const client = getTelegramClient();
     const connected = client ? await client.checkConnection() : false;
 
@@ -16,8 +18,14 @@ export async function GET() {
       configured,
       connected,
       hasApiCredentials: !!(apiId && apiHash),
-      hasSession: !!session,
-      hasBotUsername: !!botUsername,
+      hasSession,
+      hasBotUsername: accounts.length > 0,
+      accounts: accounts.map((account) => ({
+        id: account.id,
+        name: account.name,
+        botUsername: account.botUsername,
+        adapter: account.adapter,
+      })),
     });
   } catch (error) {
     console.error('[AUTH] Error checking status:', error);
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getPortfolioEvents, getRecentCopyTradingEvents } from '@/lib/db';
+import { parseAccountId } from '@/lib/accounts';
+import type { TimelineEvent } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const accountId = parseAccountId(searchParams.get('account'));
+
+    const [positionEvents, copierEvents] = await Promise.all([
+      getPortfolioEvents(limit, accountId),
+      getRecentCopyTradingEvents(limit, accountId),
+    ]);
+
+    // Newest first across both kinds; copier changes sort before the position
+    // changes recorded from the same snapshot
+    const events: TimelineEvent[] = [
+      ...copierEvents.map((event) => ({ ...event, kind: 'copier' as const })),
+      ...positionEvents.map((event) => ({ ...event, kind: 'position' as const })),
+    ]
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, limit);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('[API] Error fetching events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch events' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,69 +1,163 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { getTelegramClient } from '@/lib/telegram';
-import { parsePortfolioResponse } from '@/lib/parser';
-import { savePortfolio, snapshotExistsNearTimestamp } from '@/lib/db';
+import { getTelegramClient, type TelegramPortfolioClient } from '@/lib/telegram';
+import { getAccountBots, parseAccountId, type AccountBot } from '@/lib/accounts';
+import { rebuildSnapshotEvents } from '@/lib/events';
+import { ingestPages, ingestTrade } from '@/lib/ingestion';
+import { withRefreshLock } from '@/lib/refresh-lock';
+import { recordRefreshRun } from '@/lib/refresh-runs';
+import { floodWaitResponse, recordRefreshFailure } from '@/lib/refresh-backoff';
+import { classifyTelegramError } from '@/lib/telegram-errors';
+import { snapshotExistsNearTimestamp } from '@/lib/db';
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const limit = body.limit || 2000;
-
-    const client = getTelegramClient();
-
-    if (!client) {
-      return NextResponse.json(
-        { success: false, error: 'Telegram client not connected. Please authenticate first.' },
-        { status: 503 }
-      );
-    }
+interface BackfillResult {
+  totalMessages: number;
+  saved: number;
+  skipped: number;
+  rejected: number;
+  trades: number;
+  responseLength: number;
+}
 
-    console.log(`[HISTORICAL] Fetching up to ${limit} historical messages...`);
+async function backfill(
+  client: TelegramPortfolioClient,
+  bots: AccountBot[],
+  limit: number
+): Promise<BackfillResult> {
+  const result: BackfillResult = {
+    totalMessages: 0,
+    saved: 0,
+    skipped: 0,
+    rejected: 0,
+    trades: 0,
+    responseLength: 0,
+  };
 
-    // Fetch historical messages from Telegram
-    const messages = await client.fetchHistoricalMessages(limit);
-    console.log(`[HISTORICAL] Found ${messages.length} portfolio messages`);
+  for (const bot of bots) {
+    const savedBefore = result.saved;
+    console.log(`[HISTORICAL] Fetching up to ${limit} historical messages from ${bot.username}...`);
 
-    let savedCount = 0;
-    let skippedCount = 0;
+    // Fetch portfolio messages and trade notifications from Telegram
+    const messages = await client.fetchHistoricalMessages(
+      bot,
+      limit,
+      (message) =>
+        bot.adapter.isPortfolioMessage(message) || bot.adapter.parseTrade(message) !== null
+    );
+    console.log(`[HISTORICAL] Found ${messages.length} portfolio and trade messages`);
+    result.totalMessages += messages.length;
+    result.responseLength += messages.reduce((total, msg) => total + msg.text.length, 0);
 
     // Process each message
     for (const msg of messages) {
       try {
+        // Trades are keyed by message id, so re-running the backfill is safe
+        if (bot.adapter.parseTrade(msg)) {
+          if (await ingestTrade(bot, msg)) {
+            result.trades++;
+          }
+          continue;
+        }
+
         // Check if we already have a snapshot near this timestamp
-        const exists = await snapshotExistsNearTimestamp(msg.date.toISOString());
+        const exists = await snapshotExistsNearTimestamp(bot.account.id, msg.date.toISOString());
         if (exists) {
-          skippedCount++;
+          result.skipped++;
           continue;
         }
 
-        // Parse and save
-        const { snapshot, positions } = parsePortfolioResponse(msg.message, msg.date);
-        await savePortfolio(snapshot, positions);
-        savedCount++;
+        // Parse and save; events are rebuilt once the account is done
+        const ingested = await ingestPages(bot, [msg], { timestamp: msg.date, recordEvents: false });
+        if (ingested.success) {
+          result.saved++;
+        } else {
+          result.rejected++;
+        }
       } catch (error) {
         console.error('[HISTORICAL] Error processing message:', error);
       }
     }
 
-    console.log(
-      `[HISTORICAL] Completed: saved ${savedCount}, skipped ${skippedCount} duplicates`
+    // Backfilled snapshots land between existing ones, so diff the whole history again
+    if (result.saved > savedBefore) {
+      await rebuildSnapshotEvents(bot.account.id);
+    }
+  }
+
+  console.log(
+    `[HISTORICAL] Completed: saved ${result.saved}, skipped ${result.skipped} duplicates, rejected ${result.rejected}, ${result.trades} new trades`
+  );
+
+  return result;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const limit = body.limit || 2000;
+    const accountId = parseAccountId(body.account != null ? String(body.account) : null);
+
+    const client = getTelegramClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { success: false, error: 'Telegram client not connected. Please authenticate first.' },
+        { status: 503 }
+      );
+    }
+
+    const bots = await getAccountBots(accountId);
+    if (bots.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: accountId !== undefined ? `Unknown account: ${accountId}` : 'No accounts configured',
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateLimited = await floodWaitResponse();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const run = await withRefreshLock({ kind: 'historical', accountId }, () =>
+      recordRefreshRun(
+        'backfill',
+        accountId,
+        () => backfill(client, bots, limit),
+        (result) => ({
+          outcome: 'success',
+          error: null,
+          responseLength: result.responseLength,
+          snapshotId: null,
+        })
+      )
     );
+    if (!run.acquired) {
+      return NextResponse.json(
+        { success: false, error: `Busy: a ${run.heldBy} is already running` },
+        { status: 409 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      totalMessages: messages.length,
-      saved: savedCount,
-      skipped: skippedCount,
+      ...run.result,
     });
   } catch (error) {
     console.error('[HISTORICAL] Error fetching historical data:', error);
+    const classified = classifyTelegramError(error);
+    if (classified.kind === 'flood_wait') {
+      await recordRefreshFailure(classified.kind, classified.waitSeconds);
+    }
     return NextResponse.json(
       {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       },
-      { status: 500 }
+      { status: classified.kind === 'flood_wait' ? 429 : 500 }
     );
   }
 }
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE, signIn } from '@/lib/access';
+import { countUsers } from '@/lib/db';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if ((await countUsers()) === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No users yet. Set DASHBOARD_USERNAME and DASHBOARD_PASSWORD and restart.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const session = await signIn(username, password);
+    if (!session) {
+      console.warn(`[LOGIN] Failed login for ${username}`);
+      return NextResponse.json(
+        { success: false, error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      expires: session.expiresAt,
+    });
+    return response;
+  } catch (error) {
+    console.error('[LOGIN] Error signing in:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sign in',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getMarketHistory } from '@/lib/markets';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const marketId = parseInt(id, 10);
+
+    if (Number.isNaN(marketId)) {
+      return NextResponse.json({ error: 'Invalid market id' }, { status: 400 });
+    }
+
+    const history = await getMarketHistory(marketId);
+
+    if (!history) {
+      return NextResponse.json({ error: 'Market not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('[API] Error fetching market history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch market history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,20 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getBalanceHistory, getCopyTradingEvents, getInvestedByTrader } from '@/lib/db';
+import { parseAccountId } from '@/lib/accounts';
 import type { TimeRange } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const range = (searchParams.get('range') || '7d') as TimeRange;
+    const accountId = parseAccountId(searchParams.get('account'));
 
     // Fetch all data in parallel
     const [history, events, investedByTrader] = await Promise.all([
-      getBalanceHistory(range),
-      getCopyTradingEvents(100),
-      getInvestedByTrader(range),
+      getBalanceHistory(range, accountId),
+      getCopyTradingEvents(100, accountId),
+      getInvestedByTrader(range, accountId),
     ]);
 
     return NextResponse.json({
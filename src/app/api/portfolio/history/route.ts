@@ -1,13 +1,15 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getHistory } from '@/lib/db';
+import { parseAccountId } from '@/lib/accounts';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const accountId = parseAccountId(searchParams.get('account'));
 
-    const history = await getHistory(limit);
+    const history = await getHistory(limit, accountId);
 
     return NextResponse.json({ history });
   } catch (error) {
@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
 import { getLatestSnapshot } from '@/lib/db';
+import { parseAccountId } from '@/lib/accounts';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const snapshot = await getLatestSnapshot();
+    const accountId = parseAccountId(request.nextUrl.searchParams.get('account'));
+    const snapshot = await getLatestSnapshot(accountId);
 
     if (!snapshot) {
       return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { parseAccountId } from '@/lib/accounts';
+import { cumulativeRealisedPnl } from '@/lib/ledger';
+import { getLedger } from '@/lib/ledger-cache';
+
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = parseAccountId(request.nextUrl.searchParams.get('account'));
+
+    const { closedPositions } = await getLedger(accountId);
+    const history = cumulativeRealisedPnl(closedPositions);
+
+    return NextResponse.json({
+      closedPositions,
+      history,
+      totalRealisedPnl: history.length > 0 ? history[history.length - 1].cumulativePnl : 0,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching realised PnL:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch realised PnL' },
+      { status: 500 }
+    );
+  }
+}
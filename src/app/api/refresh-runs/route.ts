@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getRefreshRuns } from '@/lib/db';
+import { getRefreshHealth } from '@/lib/refresh-runs';
+import { getSchedulerSettings } from '@/lib/scheduler';
+
+export async function GET(request: NextRequest) {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+
+    const [runs, health] = await Promise.all([
+      getRefreshRuns(limit),
+      getSchedulerSettings().then(getRefreshHealth),
+    ]);
+
+    return NextResponse.json({ runs, health });
+  } catch (error) {
+    console.error('[API] Error fetching refresh runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch refresh runs' },
+      { status: 500 }
+    );
+  }
+}
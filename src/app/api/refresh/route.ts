@@ -1,62 +1,14 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
 import { getTelegramClient } from '@/lib/telegram';
-import { parsePortfolioResponse } from '@/lib/parser';
-import { savePortfolio, getLatestSnapshot, getUniqueTraders, saveCopyTradingEvent } from '@/lib/db';
-
-// Track known traders for change detection
-let lastKnownTraders: Set<string> = new Set();
-let tradersInitialized = false;
-
-async function initializeTraders() {
-  if (tradersInitialized) return;
-
-  try {
-    const latestSnapshot = await getLatestSnapshot();
-    if (latestSnapshot) {
-      const traders = await getUniqueTraders(latestSnapshot.id);
-      lastKnownTraders = new Set(traders);
-      console.log('[REFRESH] Initialized known traders:', Array.from(lastKnownTraders));
-    }
-    tradersInitialized = true;
-  } catch (error) {
-    console.error('[REFRESH] Error initializing traders:', error);
-  }
-}
-
-async function detectCopyTradingChanges(snapshotId: number) {
-  const currentTraders = await getUniqueTraders(snapshotId);
-  const currentSet = new Set(currentTraders);
-
-  // Find added traders
-  for (const trader of currentTraders) {
-    if (!lastKnownTraders.has(trader)) {
-      console.log(`[COPY-TRADING] New trader detected: ${trader}`);
-      await saveCopyTradingEvent({
-        timestamp: new Date().toISOString(),
-        eventType: 'copier_added',
-        description: `Started copying ${trader}`,
-        traderName: trader,
-      });
-    }
-  }
-
-  // Find removed traders
-  for (const trader of lastKnownTraders) {
-    if (!currentSet.has(trader)) {
-      console.log(`[COPY-TRADING] Trader removed: ${trader}`);
-      await saveCopyTradingEvent({
-        timestamp: new Date().toISOString(),
-        eventType: 'copier_removed',
-        description: `Stopped copying ${trader}`,
-        traderName: trader,
-      });
-    }
-  }
-
-  lastKnownTraders = currentSet;
-}
-
-export async function POST() {
+import { getAccountBots, parseAccountId } from '@/lib/accounts';
+import { refreshAccounts } from '@/lib/ingestion';
+import { withRefreshLock } from '@/lib/refresh-lock';
+import { recordRefreshRun, reportAccountResults } from '@/lib/refresh-runs';
+import { floodWaitResponse } from '@/lib/refresh-backoff';
+
+// Refresh one account (?account=<id>) or every enabled account
+export async function POST(request: NextRequest) {
   try {
     const client = getTelegramClient();
 
@@ -67,28 +19,77 @@ export async function POST() {
       );
     }
 
-    // Initialize traders if not done
-    await initializeTraders();
+    const accountId = parseAccountId(request.nextUrl.searchParams.get('account'));
+    const bots = await getAccountBots(accountId);
+    if (bots.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: accountId !== undefined ? `Unknown account: ${accountId}` : 'No accounts configured',
+        },
+        { status: 400 }
+      );
+    }
 
-    // Get portfolio from Telegram
-    const responseText = await client.sendPositionsCommand();
-    console.log('[REFRESH] Received response, first 500 chars:', responseText.substring(0, 500));
+    const rateLimited = await floodWaitResponse();
+    if (rateLimited) {
+      return rateLimited;
+    }
 
-    // Parse the response
-    const { snapshot, positions } = parsePortfolioResponse(responseText);
+    // Concurrent requests share the run already in flight
+    const accountIds = bots.map((bot) => bot.account.id);
+    const run = await withRefreshLock({ kind: 'refresh', accountId, accountIds }, () =>
+      recordRefreshRun(
+        'manual',
+        accountId,
+        () => refreshAccounts(client, bots),
+        reportAccountResults
+      )
+    );
+    if (!run.acquired) {
+      return NextResponse.json(
+        { success: false, error: `Busy: a ${run.heldBy} is already running` },
+        { status: 409 }
+      );
+    }
 
-    // Save to database
-    const snapshotId = await savePortfolio(snapshot, positions);
+    const results =
+      accountId !== undefined
+        ? run.result.filter((result) => result.accountId === accountId)
+        : run.result;
 
-    // Detect copy-trading changes
-    await detectCopyTradingChanges(snapshotId);
+    if (results.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `The refresh in flight did not include account ${accountId}`,
+          shared: run.shared,
+        },
+        { status: 409 }
+      );
+    }
 
-    console.log('[REFRESH] Portfolio refreshed successfully, snapshot ID:', snapshotId);
+    const failed = results.filter((result) => !result.success);
+    if (failed.length > 0) {
+      const rejected = failed.every((result) => result.confidence !== undefined);
+      const flooded = failed.some((result) => result.errorKind === 'flood_wait');
+      return NextResponse.json(
+        {
+          success: false,
+          error: failed.map((result) => `${result.account}: ${result.error}`).join('; '),
+          results,
+          shared: run.shared,
+        },
+        { status: flooded ? 429 : rejected ? 422 : 500 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      snapshotId,
+      snapshotId: results[0].snapshotId,
       message: 'Portfolio refreshed successfully',
+      results,
+      shared: run.shared,
     });
   } catch (error) {
     console.error('[REFRESH] Error refreshing portfolio:', error);
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { reparseArchive } from '@/lib/archive';
+import { withRefreshLock } from '@/lib/refresh-lock';
+
+export async function POST() {
+  try {
+    console.log('[REPARSE] Rebuilding snapshots from archived bot messages...');
+
+    // A refresh saving snapshots mid re-parse would miss the event rebuild
+    const run = await withRefreshLock({ kind: 'reparse' }, reparseArchive);
+    if (!run.acquired) {
+      return NextResponse.json(
+        { success: false, error: `Busy: a ${run.heldBy} is already running` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...run.result,
+    });
+  } catch (error) {
+    console.error('[REPARSE] Error re-parsing archive:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
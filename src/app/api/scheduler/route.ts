@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  getSchedulerSettings,
+  getSchedulerStatus,
+  isSchedulerRunning,
+  runSchedulerNow,
+  saveSchedulerSettings,
+  startScheduler,
+  stopScheduler,
+} from '@/lib/scheduler';
+import { syncPassiveListener } from '@/lib/passive-listener';
+import type { SchedulerSettings } from '@/lib/types';
+
+const ACTIONS = ['start', 'stop', 'run-now'] as const;
+type SchedulerAction = (typeof ACTIONS)[number];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Pick the settings present in the request body, or explain what's wrong
+function parseSettings(body: Record<string, unknown>): Partial<SchedulerSettings> | string {
+  const settings: Partial<SchedulerSettings> = {};
+
+  for (const key of ['enabled', 'passiveListening'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'boolean') return `${key} must be true or false`;
+      settings[key] = body[key];
+    }
+  }
+
+  for (const key of ['refreshIntervalMinutes', 'healthCheckIntervalMinutes'] as const) {
+    if (body[key] !== undefined) {
+      const value = body[key];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        return `${key} must be a whole number of minutes, at least 1`;
+      }
+      settings[key] = value;
+    }
+  }
+
+  for (const key of ['quietHoursStart', 'quietHoursEnd'] as const) {
+    if (body[key] !== undefined) {
+      const value = body[key];
+      if (value !== null && (typeof value !== 'string' || !TIME_PATTERN.test(value))) {
+        return `${key} must be HH:MM or null`;
+      }
+      settings[key] = value as string | null;
+    }
+  }
+
+  return settings;
+}
+
+export async function GET() {
+  try {
+    const [settings, status] = await Promise.all([getSchedulerSettings(), getSchedulerStatus()]);
+    return NextResponse.json({ settings, status });
+  } catch (error) {
+    console.error('[API] Error fetching scheduler:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scheduler settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update settings and/or run an action: start, stop or run-now
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const action = body.action as SchedulerAction | undefined;
+
+    if (action !== undefined && !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    const settings = parseSettings(body);
+    if (typeof settings === 'string') {
+      return NextResponse.json({ success: false, error: settings }, { status: 400 });
+    }
+
+    if (action === 'start') settings.enabled = true;
+    if (action === 'stop') settings.enabled = false;
+
+    // Restart only when the schedule itself changed, without refreshing on
+    // the spot. Stopping is persisted too so the scheduler stays off after a
+    // server restart.
+    if (Object.keys(settings).length > 0) {
+      const previous = await getSchedulerSettings();
+      const saved = await saveSchedulerSettings(settings);
+      const rescheduled =
+        saved.enabled !== isSchedulerRunning() ||
+        saved.refreshIntervalMinutes !== previous.refreshIntervalMinutes ||
+        saved.healthCheckIntervalMinutes !== previous.healthCheckIntervalMinutes;
+      if (rescheduled) {
+        if (saved.enabled) {
+          await startScheduler({ refreshNow: false });
+        } else {
+          stopScheduler();
+        }
+      }
+      if (settings.passiveListening !== undefined) {
+        await syncPassiveListener();
+      }
+    }
+
+    const lastRun = action === 'run-now' ? await runSchedulerNow() : undefined;
+
+    const [current, status] = await Promise.all([getSchedulerSettings(), getSchedulerStatus()]);
+    return NextResponse.json({ success: true, settings: current, status, lastRun });
+  } catch (error) {
+    console.error('[API] Error updating scheduler:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update scheduler',
+      },
+      { status: 500 }
+    );
+  }
+}
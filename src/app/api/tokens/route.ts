@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { issueApiToken } from '@/lib/access';
+import { getApiTokens, revokeApiToken } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const tokens = await getApiTokens();
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error('[API] Error fetching API tokens:', error);
+    return NextResponse.json({ error: 'Failed to fetch API tokens' }, { status: 500 });
+  }
+}
+
+// Issue a read-only token. The token itself is only in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const { name } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Token name is required' },
+        { status: 400 }
+      );
+    }
+
+    const { token, apiToken } = await issueApiToken(name.trim());
+    console.log(`[API] Issued API token ${apiToken.id} (${apiToken.name})`);
+
+    return NextResponse.json({ success: true, token, apiToken });
+  } catch (error) {
+    console.error('[API] Error issuing API token:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to issue API token',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke a token (?id=<id>)
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = parseInt(request.nextUrl.searchParams.get('id') ?? '', 10);
+    if (Number.isNaN(id)) {
+      return NextResponse.json({ success: false, error: 'Token id is required' }, { status: 400 });
+    }
+
+    if (!(await revokeApiToken(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Token not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[API] Revoked API token ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error revoking API token:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to revoke API token',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getLatestSnapshot, getTraderEvents } from '@/lib/db';
+import { parseAccountId } from '@/lib/accounts';
+import { getLedger } from '@/lib/ledger-cache';
+import { buildTraderHistory } from '@/lib/traders';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    // Route params arrive decoded; decoding again breaks names containing '%'
+    const { name: trader } = await params;
+    const accountId = parseAccountId(request.nextUrl.searchParams.get('account'));
+
+    const [ledger, latest, events] = await Promise.all([
+      getLedger(accountId),
+      getLatestSnapshot(accountId),
+      getTraderEvents(trader, accountId),
+    ]);
+
+    const stats = ledger.traderStats.find((entry) => entry.trader === trader) ?? null;
+
+    if (!stats && events.length === 0) {
+      return NextResponse.json({ error: 'Trader not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      trader,
+      stats,
+      openPositions: latest?.positions.filter((position) => position.copiedFrom === trader) ?? [],
+      closedPositions: ledger.closedPositions.filter(
+        (position) => position.copiedFrom === trader
+      ),
+      history: buildTraderHistory(ledger.snapshots, trader),
+      events,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching trader:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trader' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { parseAccountId } from '@/lib/accounts';
+import { getLedger } from '@/lib/ledger-cache';
+
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = parseAccountId(request.nextUrl.searchParams.get('account'));
+
+    // The leaderboard sorts them itself
+    const { traderStats: traders } = await getLedger(accountId);
+
+    return NextResponse.json({ traders });
+  } catch (error) {
+    console.error('[API] Error fetching trader stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trader stats' },
+      { status: 500 }
+    );
+  }
+}
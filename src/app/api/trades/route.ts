@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getTrades } from '@/lib/db';
+import { parseAccountId } from '@/lib/accounts';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
+    const accountId = parseAccountId(searchParams.get('account'));
+
+    const trades = await getTrades(limit, accountId);
+
+    return NextResponse.json({ trades });
+  } catch (error) {
+    console.error('[API] Error fetching trades:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trades' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createDashboardUser, getRequestUser, validateNewUser } from '@/lib/access';
+import { countUsers, deleteUser, getUsers } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const users = await getUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('[API] Error fetching users:', error);
+    return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    const problem =
+      typeof username === 'string' && typeof password === 'string'
+        ? validateNewUser(username, password)
+        : 'Username and password are required';
+    if (problem) {
+      return NextResponse.json({ success: false, error: problem }, { status: 400 });
+    }
+
+    const user = await createDashboardUser(username, password);
+    console.log(`[API] Created dashboard user ${user.username}`);
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('[API] Error creating user:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create user',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete another user (?id=<id>); their sessions go with them
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = parseInt(request.nextUrl.searchParams.get('id') ?? '', 10);
+    if (Number.isNaN(id)) {
+      return NextResponse.json({ success: false, error: 'User id is required' }, { status: 400 });
+    }
+
+    const currentUser = await getRequestUser(request);
+    if (currentUser?.id === id || (await countUsers()) <= 1) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot delete yourself or the last user' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteUser(id))) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting user:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete user',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Suspense } from 'react';
+import { LoginForm } from '@/components/login/login-form';
+
+export default function LoginPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-white p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </main>
+  );
+}
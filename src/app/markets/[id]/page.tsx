@@ -0,0 +1,84 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+import { PositionLifecycle } from '@/components/dashboard/position-lifecycle';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useMarketHistory } from '@/hooks/use-market-history';
+import { useAccounts } from '@/hooks/use-accounts';
+
+export default function MarketPage() {
+  const params = useParams<{ id: string }>();
+  const marketId = parseInt(params.id, 10);
+  const { data, isLoading, error } = useMarketHistory(marketId);
+  const { data: accountsData } = useAccounts();
+
+  const accounts = accountsData?.accounts ?? [];
+  const accountNames = Object.fromEntries(accounts.map((account) => [account.id, account.name]));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-white p-4 sm:p-6 lg:p-8">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to dashboard
+        </Link>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error instanceof Error ? error.message : 'Failed to load market history'}
+            </AlertDescription>
+          </Alert>
+        ) : isLoading || !data ? (
+          <div className="space-y-6">
+            <Skeleton className="h-[40px]" />
+            <Skeleton className="h-[300px]" />
+          </div>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-2xl font-bold">{data.market.question}</h1>
+              {data.market.url && (
+                <a
+                  href={data.market.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+                >
+                  View market
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+
+            {data.lifecycles.length === 0 ? (
+              <Alert>
+                <AlertTitle>No Positions</AlertTitle>
+                <AlertDescription>No positions have been recorded in this market.</AlertDescription>
+              </Alert>
+            ) : (
+              data.lifecycles.map((lifecycle) => (
+                <PositionLifecycle
+                  key={`${lifecycle.accountId}-${lifecycle.side}-${lifecycle.openedAt}`}
+                  lifecycle={lifecycle}
+                  accountName={
+                    accounts.length > 1 && lifecycle.accountId !== null
+                      ? accountNames[lifecycle.accountId]
+                      : undefined
+                  }
+                />
+              ))
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
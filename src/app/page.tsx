@@ -5,20 +5,38 @@ import { Header } from '@/components/dashboard/header';
 import { BalanceCards } from '@/components/dashboard/balance-cards';
 import { BalanceChart } from '@/components/dashboard/balance-chart';
 import { PositionsTable } from '@/components/dashboard/positions-table';
+import { EventTimeline } from '@/components/dashboard/event-timeline';
+import { ClosedPositionsTable } from '@/components/dashboard/closed-positions-table';
+import { TradesTable } from '@/components/dashboard/trades-table';
+import { RealisedPnlChart } from '@/components/dashboard/realised-pnl-chart';
+import { TraderLeaderboard } from '@/components/dashboard/trader-leaderboard';
+import { SchedulerPanel } from '@/components/dashboard/scheduler-panel';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { usePortfolio } from '@/hooks/use-portfolio';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useRealisedPnl } from '@/hooks/use-realised-pnl';
 import type { TimeRange } from '@/lib/types';
 
 export default function DashboardPage() {
   const [chartRange, setChartRange] = useState<TimeRange>('7d');
-  const { data: portfolio, isLoading, error } = usePortfolio();
+  const [accountId, setAccountId] = useState<number | undefined>(undefined);
+  const { data: portfolio, isLoading, error } = usePortfolio(accountId);
+  const { data: accountsData } = useAccounts();
+  const { data: realisedPnl, isLoading: isRealisedPnlLoading } = useRealisedPnl(accountId);
+
+  const accounts = accountsData?.accounts ?? [];
+  const accountNames =
+    accountId === undefined && accounts.length > 1
+      ? Object.fromEntries(accounts.map((account) => [account.id, account.name]))
+      : undefined;
 
   if (error) {
     return (
       <main className="min-h-screen bg-gradient-to-b from-gray-50 to-white p-4 sm:p-6 lg:p-8">
         <div className="mx-auto max-w-7xl">
-          <Header />
+          <Header accountId={accountId} onAccountChange={setAccountId} />
           <Alert variant="destructive" className="mt-6">
             <AlertTitle>Error</AlertTitle>
             <AlertDescription>
@@ -33,7 +51,11 @@ export default function DashboardPage() {
   return (
     <main className="min-h-screen bg-gradient-to-b from-gray-50 to-white p-4 sm:p-6 lg:p-8">
       <div className="mx-auto max-w-7xl space-y-6">
-        <Header lastUpdated={portfolio?.timestamp} />
+        <Header
+          lastUpdated={portfolio?.timestamp}
+          accountId={accountId}
+          onAccountChange={setAccountId}
+        />
 
         {isLoading ? (
           <div className="space-y-6">
@@ -47,6 +69,16 @@ export default function DashboardPage() {
           </div>
         ) : portfolio ? (
           <>
+            {portfolio.parseWarnings && (
+              <Alert>
+                <AlertTitle>Parsed with warnings</AlertTitle>
+                <AlertDescription>
+                  The latest snapshot may be incomplete (parser confidence{' '}
+                  {Math.round((portfolio.parseConfidence ?? 0) * 100)}%).
+                </AlertDescription>
+              </Alert>
+            )}
+
             <BalanceCards
               totalBalance={portfolio.totalBalance}
               availableBalance={portfolio.availableBalance}
@@ -55,12 +87,49 @@ export default function DashboardPage() {
               totalPnlPct={portfolio.totalPnlPct}
             />
 
-            <BalanceChart range={chartRange} onRangeChange={setChartRange} />
+            <BalanceChart
+              range={chartRange}
+              onRangeChange={setChartRange}
+              accountId={accountId}
+            />
+
+            <RealisedPnlChart
+              history={realisedPnl?.history}
+              total={realisedPnl?.totalRealisedPnl}
+              isLoading={isRealisedPnlLoading}
+            />
+
+            <Tabs defaultValue="open" className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Positions</h2>
+                <TabsList>
+                  <TabsTrigger value="open">Open</TabsTrigger>
+                  <TabsTrigger value="closed">Closed</TabsTrigger>
+                  <TabsTrigger value="trades">Trades</TabsTrigger>
+                </TabsList>
+              </div>
+              <TabsContent value="open">
+                <PositionsTable positions={portfolio.positions} accountNames={accountNames} />
+              </TabsContent>
+              <TabsContent value="closed">
+                <ClosedPositionsTable
+                  positions={realisedPnl?.closedPositions ?? []}
+                  accountNames={accountNames}
+                />
+              </TabsContent>
+              <TabsContent value="trades">
+                <TradesTable accountId={accountId} accountNames={accountNames} />
+              </TabsContent>
+            </Tabs>
 
             <div className="space-y-4">
-              <h2 className="text-lg font-semibold">Positions</h2>
-              <PositionsTable positions={portfolio.positions} />
+              <h2 className="text-lg font-semibold">Traders</h2>
+              <TraderLeaderboard accountId={accountId} />
             </div>
+
+            <EventTimeline accountId={accountId} accountNames={accountNames} />
+
+            <SchedulerPanel />
           </>
         ) : (
           <Alert>
@@ -0,0 +1,20 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { SessionPanel } from '@/components/auth/session-panel';
+
+export default function TelegramSessionPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-white p-4 sm:p-6 lg:p-8">
+      <div className="mx-auto max-w-xl space-y-6">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to dashboard
+        </Link>
+        <SessionPanel />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { PositionsTable } from '@/components/dashboard/positions-table';
+import { ClosedPositionsTable } from '@/components/dashboard/closed-positions-table';
+import { TraderHistoryChart } from '@/components/dashboard/trader-history-chart';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { useTrader } from '@/hooks/use-trader';
+import { useAccounts } from '@/hooks/use-accounts';
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export default function TraderPage() {
+  const params = useParams<{ name: string }>();
+  // Unlike route handler params, useParams hands back the segment as it
+  // appears in the URL, so this is the one decode the name gets
+  const name = decodeURIComponent(params.name);
+  const { data, isLoading, error } = useTrader(name);
+  const { data: accountsData } = useAccounts();
+
+  const accounts = accountsData?.accounts ?? [];
+  const accountNames =
+    accounts.length > 1
+      ? Object.fromEntries(accounts.map((account) => [account.id, account.name]))
+      : undefined;
+
+  const stats = data?.stats;
+  const totalPnl = stats ? stats.realisedPnl + stats.unrealisedPnl : 0;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-white p-4 sm:p-6 lg:p-8">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to dashboard
+        </Link>
+
+        <h1 className="text-2xl font-bold">{name}</h1>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error instanceof Error ? error.message : 'Failed to load trader'}
+            </AlertDescription>
+          </Alert>
+        ) : isLoading || !data ? (
+          <div className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-[100px]" />
+              ))}
+            </div>
+            <Skeleton className="h-[300px]" />
+          </div>
+        ) : (
+          <>
+            {stats && (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Exposure
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatCurrency(stats.exposure)}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {stats.openPositions} open position{stats.openPositions === 1 ? '' : 's'}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Total P&L
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div
+                      className={cn(
+                        'text-2xl font-bold',
+                        totalPnl >= 0 ? 'text-green-500' : 'text-red-500'
+                      )}
+                    >
+                      {formatCurrency(totalPnl)}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(stats.realisedPnl)} realised
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Win Rate
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">
+                      {stats.winRate === null ? '—' : `${stats.winRate.toFixed(0)}%`}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {stats.closedPositions} closed position{stats.closedPositions === 1 ? '' : 's'}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Max Drawdown
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-500">
+                      {stats.maxDrawdown > 0 ? formatCurrency(-stats.maxDrawdown) : '—'}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            <TraderHistoryChart history={data.history} />
+
+            <Tabs defaultValue="open" className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Positions</h2>
+                <TabsList>
+                  <TabsTrigger value="open">Open</TabsTrigger>
+                  <TabsTrigger value="closed">Closed</TabsTrigger>
+                </TabsList>
+              </div>
+              <TabsContent value="open">
+                <PositionsTable positions={data.openPositions} accountNames={accountNames} />
+              </TabsContent>
+              <TabsContent value="closed">
+                <ClosedPositionsTable
+                  positions={data.closedPositions}
+                  accountNames={accountNames}
+                />
+              </TabsContent>
+            </Tabs>
+
+            <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold">Copy Trading History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {data.events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No copy trading events recorded</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {data.events.map((event) => (
+                      <li key={event.id} className="flex items-center justify-between text-sm">
+                        <span
+                          className={cn(
+                            event.eventType === 'copier_added' ? 'text-green-600' : 'text-red-600'
+                          )}
+                        >
+                          {event.description}
+                          {accountNames && event.accountId !== null && accountNames[event.accountId] && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              ({accountNames[event.accountId]})
+                            </span>
+                          )}
+                        </span>
+                        <time className="text-xs text-muted-foreground">
+                          {new Date(event.timestamp).toLocaleString()}
+                        </time>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
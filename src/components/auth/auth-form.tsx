@@ -1,38 +1,124 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
 import { PhoneStep } from './phone-step';
+import { QrStep } from './qr-step';
 import { CodeStep } from './code-step';
 import { PasswordStep } from './password-step';
 
-type AuthStep = 'phone' | 'code' | 'password' | 'complete';
+type AuthStep = 'phone' | 'qr' | 'code' | 'password' | 'complete';
+
+// How often the QR step checks whether the code has been scanned
+const QR_POLL_INTERVAL_MS = 2000;
+
+async function startAuthSession(): Promise<string> {
+  const startRes = await fetch('/api/auth/start', { method: 'POST' });
+  const startData = await startRes.json();
+
+  if (!startData.success) {
+    throw new Error(startData.error || 'Failed to start authentication');
+  }
+
+  return startData.sessionId;
+}
 
 export function AuthForm() {
   const [step, setStep] = useState<AuthStep>('phone');
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [isStartingQr, setIsStartingQr] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handlePhoneSubmit = async (phone: string) => {
+  // While the QR code is shown, poll for a fresh code or the next step. Polls
+  // run one after another so completing the login is only reported once.
+  useEffect(() => {
+    if (step !== 'qr' || !sessionId) {
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const res = await fetch('/api/auth/qr/status', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionId }),
+        });
+        const data = await res.json();
+        if (cancelled) {
+          return;
+        }
+
+        if (!data.success) {
+          throw new Error(data.error || 'QR login failed');
+        }
+
+        if (data.nextStep === 'qr') {
+          setQrCode(data.qrCode);
+          timer = setTimeout(poll, QR_POLL_INTERVAL_MS);
+        } else {
+          setStep(data.nextStep);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          setStep('phone');
+        }
+      }
+    };
+
+    void poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [step, sessionId]);
+
+  const handleQrStart = async () => {
     setError(null);
+    setQrCode(null);
+    setIsStartingQr(true);
 
     try {
-      // Start auth session
-      const startRes = await fetch('/api/auth/start', { method: 'POST' });
-      const startData = await startRes.json();
+      const newSessionId = await startAuthSession();
 
-      if (!startData.success) {
-        throw new Error(startData.error || 'Failed to start authentication');
+      const qrRes = await fetch('/api/auth/qr', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: newSessionId }),
+      });
+      const qrData = await qrRes.json();
+
+      if (!qrData.success) {
+        throw new Error(qrData.error || 'Failed to start QR login');
       }
 
-      setSessionId(startData.sessionId);
+      setSessionId(newSessionId);
+      setStep('qr');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsStartingQr(false);
+    }
+  };
+
+  const handlePhoneSubmit = async (phone: string) => {
+    setError(null);
+
+    try {
+      const newSessionId = await startAuthSession();
+      setSessionId(newSessionId);
 
       // Submit phone number
       const phoneRes = await fetch('/api/auth/phone', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId: startData.sessionId, phoneNumber: phone }),
+        body: JSON.stringify({ sessionId: newSessionId, phoneNumber: phone }),
       });
       const phoneData = await phoneRes.json();
 
@@ -133,6 +219,7 @@ export function AuthForm() {
         <CardTitle>Telegram Authentication</CardTitle>
         <CardDescription>
           {step === 'phone' && 'Enter your phone number to receive a verification code.'}
+          {step === 'qr' && 'Scan the QR code with a Telegram app you are already logged in to.'}
           {step === 'code' && 'Enter the verification code sent to your Telegram app.'}
           {step === 'password' && 'Enter your 2FA password to complete authentication.'}
         </CardDescription>
@@ -144,7 +231,21 @@ export function AuthForm() {
           </Alert>
         )}
 
-        {step === 'phone' && <PhoneStep onSubmit={handlePhoneSubmit} />}
+        {step === 'phone' && (
+          <>
+            <PhoneStep onSubmit={handlePhoneSubmit} />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleQrStart}
+              disabled={isStartingQr}
+            >
+              {isStartingQr ? 'Preparing QR code...' : 'Log in with QR code instead'}
+            </Button>
+          </>
+        )}
+        {step === 'qr' && <QrStep qrCode={qrCode} onCancel={() => setStep('phone')} />}
         {step === 'code' && <CodeStep onSubmit={handleCodeSubmit} />}
         {step === 'password' && <PasswordStep onSubmit={handlePasswordSubmit} />}
       </CardContent>
@@ -0,0 +1,38 @@
+'use client';
+
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+
+interface QrStepProps {
+  // QR code image as a data URL; null until the first one arrives
+  qrCode: string | null;
+  onCancel: () => void;
+}
+
+export function QrStep({ qrCode, onCancel }: QrStepProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center">
+        {qrCode ? (
+          <Image
+            src={qrCode}
+            alt="Telegram login QR code"
+            width={256}
+            height={256}
+            unoptimized
+          />
+        ) : (
+          <Skeleton className="h-64 w-64" />
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground text-center">
+        In the Telegram app on your phone, open Settings &gt; Devices &gt; Link Desktop Device
+        and scan this code. It refreshes automatically when it expires.
+      </p>
+      <Button type="button" variant="outline" className="w-full" onClick={onCancel}>
+        Use phone number instead
+      </Button>
+    </div>
+  );
+}
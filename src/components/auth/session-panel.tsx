@@ -0,0 +1,145 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useLogOutTelegram, useTelegramSession } from '@/hooks/use-telegram-session';
+import type { TelegramSessionInfo, TelegramUser } from '@/lib/types';
+
+const SOURCE_LABELS: Record<NonNullable<TelegramSessionInfo['source']>, string> = {
+  database: 'Saved from login',
+  environment: 'TELEGRAM_SESSION environment variable',
+};
+
+function formatUser(user: TelegramUser): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  const username = user.username ? `@${user.username}` : null;
+  return [name, username].filter(Boolean).join(' ') || user.id;
+}
+
+function formatTime(value: string | null, fallback: string): string {
+  return value ? new Date(value).toLocaleString() : fallback;
+}
+
+function StatusBadge({ session }: { session: TelegramSessionInfo }) {
+  if (!session.source) {
+    return <Badge variant="secondary">No session</Badge>;
+  }
+  return (
+    <Badge
+      className={cn(
+        session.connected
+          ? 'bg-green-100 text-green-800 hover:bg-green-100'
+          : 'bg-red-100 text-red-800 hover:bg-red-100'
+      )}
+    >
+      {session.connected ? 'Connected' : 'Not connected'}
+    </Badge>
+  );
+}
+
+export function SessionPanel() {
+  const { data, isLoading, error } = useTelegramSession();
+  const logOut = useLogOutTelegram();
+
+  const handleLogOut = () => {
+    if (
+      window.confirm(
+        'Log out of Telegram? The session is revoked and refreshes stop until you link an account again.'
+      )
+    ) {
+      logOut.mutate();
+    }
+  };
+
+  const session = data?.session;
+
+  return (
+    <Card className="w-full max-w-xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>Telegram Session</CardTitle>
+          {session && <StatusBadge session={session} />}
+        </div>
+        <CardDescription>
+          The Telegram account the dashboard reads your bots through.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {error instanceof Error ? error.message : 'Failed to load session'}
+            </AlertDescription>
+          </Alert>
+        )}
+        {logOut.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{logOut.error.message}</AlertDescription>
+          </Alert>
+        )}
+        {logOut.data && (
+          <Alert>
+            <AlertDescription>
+              {logOut.data.revoked
+                ? 'Logged out and revoked the session.'
+                : 'Deleted the session, but Telegram could not be reached to revoke it. End it from Settings > Devices in the Telegram app.'}
+              {logOut.data.warning && ` ${logOut.data.warning}`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading || !session ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-5" />
+            ))}
+          </div>
+        ) : session.source ? (
+          <>
+            {session.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{session.error}</AlertDescription>
+              </Alert>
+            )}
+            <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Account</dt>
+              <dd>{session.user ? formatUser(session.user) : 'Unknown'}</dd>
+              {session.user?.phone && (
+                <>
+                  <dt className="text-muted-foreground">Phone</dt>
+                  <dd>+{session.user.phone}</dd>
+                </>
+              )}
+              <dt className="text-muted-foreground">Source</dt>
+              <dd>{SOURCE_LABELS[session.source]}</dd>
+              <dt className="text-muted-foreground">Created</dt>
+              <dd>{formatTime(session.createdAt, 'Unknown')}</dd>
+              <dt className="text-muted-foreground">Last successful call</dt>
+              <dd>{formatTime(session.lastSuccessfulCallAt, 'None since the server started')}</dd>
+            </dl>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No Telegram account is linked. Link one to start refreshing portfolios.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button asChild variant={session?.source ? 'outline' : 'default'}>
+            <Link href="/auth">{session?.source ? 'Re-link account' : 'Link account'}</Link>
+          </Button>
+          {session?.source && (
+            <Button variant="destructive" onClick={handleLogOut} disabled={logOut.isPending}>
+              {logOut.isPending ? 'Logging out...' : 'Log out'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
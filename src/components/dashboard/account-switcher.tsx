@@ -0,0 +1,44 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAccounts } from '@/hooks/use-accounts';
+
+interface AccountSwitcherProps {
+  value?: number;
+  onChange: (accountId: number | undefined) => void;
+}
+
+export function AccountSwitcher({ value, onChange }: AccountSwitcherProps) {
+  const { data } = useAccounts();
+  const accounts = data?.accounts ?? [];
+
+  // Nothing to switch between with a single account
+  if (accounts.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={value !== undefined ? String(value) : 'all'}
+      onValueChange={(v) => onChange(v === 'all' ? undefined : parseInt(v, 10))}
+    >
+      <SelectTrigger className="w-[180px]">
+        <SelectValue placeholder="Select account" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All accounts</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={String(account.id)}>
+            {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
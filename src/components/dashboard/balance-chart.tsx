@@ -1,6 +1,7 @@
 'use client';
 
 import { useMemo } from 'react';
+import { useRouter } from 'next/navigation';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -42,6 +43,7 @@ ChartJS.register(
 interface BalanceChartProps {
   range: TimeRange;
   onRangeChange: (range: TimeRange) => void;
+  accountId?: number;
 }
 
 const TRADER_COLORS = [
@@ -53,8 +55,9 @@ const TRADER_COLORS = [
   '#ffcc00', // Yellow
 ];
 
-export function BalanceChart({ range, onRangeChange }: BalanceChartProps) {
-  const { data, isLoading, error } = useBalanceHistory(range);
+export function BalanceChart({ range, onRangeChange, accountId }: BalanceChartProps) {
+  const { data, isLoading, error } = useBalanceHistory(range, accountId);
+  const router = useRouter();
 
   const chartData = useMemo(() => {
     if (!data?.history) return null;
@@ -111,6 +114,22 @@ export function BalanceChart({ range, onRangeChange }: BalanceChartProps) {
         mode: 'index' as const,
         intersect: false,
       },
+      // Clicking a trader's line opens their page. Points aren't drawn, so
+      // the click goes to the nearest point rather than needing to hit one.
+      onClick: (event, _elements, chart) => {
+        const [element] = chart.getElementsAtEventForMode(
+          event.native as Event,
+          'nearest',
+          { intersect: false, axis: 'xy' },
+          true
+        );
+        if (element && element.datasetIndex > 0) {
+          const trader = chart.data.datasets[element.datasetIndex].label;
+          if (trader) {
+            router.push(`/traders/${encodeURIComponent(trader)}`);
+          }
+        }
+      },
       plugins: {
         legend: {
           position: 'top' as const,
@@ -158,7 +177,7 @@ export function BalanceChart({ range, onRangeChange }: BalanceChartProps) {
         },
       },
     }),
-    [range]
+    [range, router]
   );
 
   return (
@@ -0,0 +1,141 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { ClosedPosition, ClosedPositionOutcome } from '@/lib/types';
+
+interface ClosedPositionsTableProps {
+  positions: ClosedPosition[];
+  // Shown under each market in the combined view
+  accountNames?: Record<number, string>;
+}
+
+const OUTCOME_STYLES: Record<ClosedPositionOutcome, { label: string; className: string }> = {
+  won: { label: 'Won', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  lost: { label: 'Lost', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-800 hover:bg-gray-100' },
+};
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number): string {
+  const sign = value >= 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours < 24) {
+    return `${hours}h`;
+  }
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function ClosedPositionsTable({ positions, accountNames }: ClosedPositionsTableProps) {
+  if (positions.length === 0) {
+    return (
+      <div className="rounded-lg border bg-white/80 backdrop-blur-xl p-8 text-center">
+        <p className="text-muted-foreground">No closed positions yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-white/80 backdrop-blur-xl overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[40%]">Market</TableHead>
+            <TableHead>Side</TableHead>
+            <TableHead>Outcome</TableHead>
+            <TableHead className="text-right">Held</TableHead>
+            <TableHead className="text-right">Invested</TableHead>
+            <TableHead className="text-right">Realised</TableHead>
+            <TableHead className="text-right">Return</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {positions.map((position) => {
+            const isPnlPositive = position.realisedPnl >= 0;
+            const outcome = OUTCOME_STYLES[position.outcome];
+            return (
+              <TableRow
+                key={`${position.accountId}-${position.marketQuestion}-${position.side}-${position.closedAt}`}
+                className="hover:bg-muted/50"
+              >
+                <TableCell className="font-medium">
+                  <div className="max-w-md truncate" title={position.marketQuestion}>
+                    {position.marketId !== null ? (
+                      <Link href={`/markets/${position.marketId}`} className="hover:underline">
+                        {position.marketQuestion}
+                      </Link>
+                    ) : (
+                      position.marketQuestion
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    Closed {new Date(position.closedAt).toLocaleString()}
+                    {position.copiedFrom && (
+                      <>
+                        {' · Copied from '}
+                        <Link
+                          href={`/traders/${encodeURIComponent(position.copiedFrom)}`}
+                          className="hover:underline"
+                        >
+                          {position.copiedFrom}
+                        </Link>
+                      </>
+                    )}
+                  </span>
+                  {accountNames && position.accountId !== null && accountNames[position.accountId] && (
+                    <Badge variant="outline" className="ml-2 text-xs font-normal">
+                      {accountNames[position.accountId]}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>{position.side}</TableCell>
+                <TableCell>
+                  <Badge className={outcome.className}>{outcome.label}</Badge>
+                </TableCell>
+                <TableCell className="text-right">{formatDuration(position.holdingMs)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(position.invested)}</TableCell>
+                <TableCell
+                  className={cn(
+                    'text-right font-medium',
+                    isPnlPositive ? 'text-green-500' : 'text-red-500'
+                  )}
+                >
+                  {formatCurrency(position.realisedPnl)}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    'text-right font-medium',
+                    isPnlPositive ? 'text-green-500' : 'text-red-500'
+                  )}
+                >
+                  {formatPercent(position.returnPct)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
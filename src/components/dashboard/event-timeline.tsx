@@ -0,0 +1,97 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  CheckCircle2,
+  MinusCircle,
+  PlusCircle,
+  Repeat,
+  UserMinus,
+  UserPlus,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useEvents } from '@/hooks/use-events';
+import type { CopierEventType, PositionEventType, TimelineEvent } from '@/lib/types';
+
+interface EventTimelineProps {
+  accountId?: number;
+  // Shown next to each event in the combined view
+  accountNames?: Record<number, string>;
+}
+
+const EVENT_ICONS: Record<
+  PositionEventType | CopierEventType,
+  { icon: typeof PlusCircle; className: string }
+> = {
+  position_opened: { icon: PlusCircle, className: 'text-green-500' },
+  position_closed: { icon: MinusCircle, className: 'text-gray-500' },
+  position_resolved: { icon: CheckCircle2, className: 'text-blue-500' },
+  position_increased: { icon: ArrowUpRight, className: 'text-green-500' },
+  position_decreased: { icon: ArrowDownRight, className: 'text-orange-500' },
+  side_flipped: { icon: Repeat, className: 'text-purple-500' },
+  copier_added: { icon: UserPlus, className: 'text-green-500' },
+  copier_removed: { icon: UserMinus, className: 'text-red-500' },
+};
+
+// Position changes link to their market, copier changes to the trader
+function eventHref(event: TimelineEvent): string | null {
+  if (event.kind === 'copier') {
+    return event.traderName ? `/traders/${encodeURIComponent(event.traderName)}` : null;
+  }
+  return event.marketId !== null ? `/markets/${event.marketId}` : null;
+}
+
+export function EventTimeline({ accountId, accountNames }: EventTimelineProps) {
+  const { data, isLoading } = useEvents(accountId);
+  const events = data?.events ?? [];
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Activity</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[200px]" />
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity recorded yet</p>
+        ) : (
+          <ol className="relative space-y-4 border-l border-border pl-6">
+            {events.map((event) => {
+              const { icon: Icon, className } =
+                EVENT_ICONS[event.eventType as PositionEventType | CopierEventType] ??
+                EVENT_ICONS.position_closed;
+              const href = eventHref(event);
+              return (
+                <li key={`${event.kind}-${event.id}`} className="relative">
+                  <Icon className={`absolute -left-[33px] top-0.5 h-4 w-4 bg-white ${className}`} />
+                  <div className="text-sm">
+                    {href ? (
+                      <Link href={href} className="hover:underline">
+                        {event.description}
+                      </Link>
+                    ) : (
+                      event.description
+                    )}
+                    {accountNames && event.accountId !== null && accountNames[event.accountId] && (
+                      <Badge variant="outline" className="ml-2 text-xs font-normal">
+                        {accountNames[event.accountId]}
+                      </Badge>
+                    )}
+                  </div>
+                  <time className="text-xs text-muted-foreground">
+                    {new Date(event.timestamp).toLocaleString()}
+                  </time>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,27 @@
 'use client';
 
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useRefreshPortfolio } from '@/hooks/use-portfolio';
+import { AccountSwitcher } from './account-switcher';
+import { RefreshStatus } from './refresh-status';
 
 interface HeaderProps {
   lastUpdated?: string;
+  accountId?: number;
+  onAccountChange?: (accountId: number | undefined) => void;
 }
 
-export function Header({ lastUpdated }: HeaderProps) {
-  const { mutate: refresh, isPending } = useRefreshPortfolio();
+export function Header({ lastUpdated, accountId, onAccountChange }: HeaderProps) {
+  const { mutate: refresh, isPending } = useRefreshPortfolio(accountId);
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    await fetch('/api/logout', { method: 'POST' });
+    router.replace('/login');
+  };
 
   return (
     <header className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -20,6 +32,10 @@ export function Header({ lastUpdated }: HeaderProps) {
         </Badge>
       </div>
       <div className="flex items-center gap-4">
+        {onAccountChange && (
+          <AccountSwitcher value={accountId} onChange={onAccountChange} />
+        )}
+        <RefreshStatus />
         {lastUpdated && (
           <span className="text-sm text-muted-foreground">
             Last updated: {new Date(lastUpdated).toLocaleString()}
@@ -33,6 +49,12 @@ export function Header({ lastUpdated }: HeaderProps) {
         >
           {isPending ? 'Refreshing...' : 'Refresh'}
         </Button>
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/telegram">Telegram</Link>
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleSignOut}>
+          Sign out
+        </Button>
       </div>
     </header>
   );
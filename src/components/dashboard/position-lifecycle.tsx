@@ -0,0 +1,112 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { PositionLifecycle as Lifecycle } from '@/lib/types';
+
+interface PositionLifecycleProps {
+  lifecycle: Lifecycle;
+  accountName?: string;
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number): string {
+  const sign = value >= 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+export function PositionLifecycle({ lifecycle, accountName }: PositionLifecycleProps) {
+  return (
+    <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+          <Badge
+            className={cn(
+              lifecycle.side === 'Yes'
+                ? 'bg-green-100 text-green-800 hover:bg-green-100'
+                : 'bg-red-100 text-red-800 hover:bg-red-100'
+            )}
+          >
+            {lifecycle.side}
+          </Badge>
+          {accountName && (
+            <Badge variant="outline" className="font-normal">
+              {accountName}
+            </Badge>
+          )}
+          <span className="text-sm font-normal text-muted-foreground">
+            Opened {formatTime(lifecycle.openedAt)}
+            {' · '}
+            {lifecycle.closedAt ? `Closed ${formatTime(lifecycle.closedAt)}` : 'Still open'}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Snapshot</TableHead>
+              <TableHead className="text-right">Entry</TableHead>
+              <TableHead className="text-right">Shares</TableHead>
+              <TableHead className="text-right">Invested</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead className="text-right">P&L</TableHead>
+              <TableHead className="text-right">P&L %</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lifecycle.points.map((point) => {
+              const isPnlPositive = point.pnlUsd >= 0;
+              return (
+                <TableRow key={point.snapshotId}>
+                  <TableCell>{formatTime(point.timestamp)}</TableCell>
+                  <TableCell className="text-right">{point.entryPrice.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{point.shares.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(point.invested)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(point.value)}</TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right font-medium',
+                      isPnlPositive ? 'text-green-500' : 'text-red-500'
+                    )}
+                  >
+                    {formatCurrency(point.pnlUsd)}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right font-medium',
+                      isPnlPositive ? 'text-green-500' : 'text-red-500'
+                    )}
+                  >
+                    {formatPercent(point.pnlPct)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
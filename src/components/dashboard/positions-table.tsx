@@ -1,5 +1,7 @@
 'use client';
 
+import Link from 'next/link';
+import { ExternalLink } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -14,6 +16,8 @@ import type { Position } from '@/generated/prisma/client';
 
 interface PositionsTableProps {
   positions: Position[];
+  // Shown under each market in the combined view
+  accountNames?: Record<number, string>;
 }
 
 function formatCurrency(value: number): string {
@@ -39,7 +43,7 @@ function escapeHtml(unsafe: string): string {
     .replace(/'/g, '&#039;');
 }
 
-export function PositionsTable({ positions }: PositionsTableProps) {
+export function PositionsTable({ positions, accountNames }: PositionsTableProps) {
   if (positions.length === 0) {
     return (
       <div className="rounded-lg border bg-white/80 backdrop-blur-xl p-8 text-center">
@@ -68,13 +72,52 @@ export function PositionsTable({ positions }: PositionsTableProps) {
               <TableRow key={position.id} className="hover:bg-muted/50">
                 <TableCell className="font-medium">
                   <div className="max-w-md truncate" title={position.marketQuestion}>
-                    {escapeHtml(position.marketQuestion)}
+                    {position.marketId !== null ? (
+                      <Link href={`/markets/${position.marketId}`} className="hover:underline">
+                        {escapeHtml(position.marketQuestion)}
+                      </Link>
+                    ) : (
+                      escapeHtml(position.marketQuestion)
+                    )}
+                    {position.marketUrl && (
+                      <a
+                        href={position.marketUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-1 inline-flex text-muted-foreground hover:text-foreground"
+                        title="Open market"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
                   </div>
                   {position.copiedFrom && (
                     <span className="text-xs text-muted-foreground">
-                      Copied from: {position.copiedFrom}
+                      Copied from:{' '}
+                      <Link
+                        href={`/traders/${encodeURIComponent(position.copiedFrom)}`}
+                        className="hover:underline"
+                      >
+                        {position.copiedFrom}
+                      </Link>
+                      {position.traderProfileUrl && (
+                        <a
+                          href={position.traderProfileUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-1 inline-flex hover:text-foreground"
+                          title={position.walletAddress ?? 'Open profile'}
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
                     </span>
                   )}
+                  {accountNames && position.accountId !== null && accountNames[position.accountId] && (
+                    <Badge variant="outline" className="ml-2 text-xs font-normal">
+                      {accountNames[position.accountId]}
+                    </Badge>
+                  )}
                 </TableCell>
                 <TableCell>
                   <Badge
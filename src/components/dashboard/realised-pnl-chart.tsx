@@ -0,0 +1,116 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  TimeScale,
+  type ChartOptions,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import 'chartjs-adapter-date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type { RealisedPnlPoint } from '@/lib/types';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, TimeScale);
+
+interface RealisedPnlChartProps {
+  history: RealisedPnlPoint[] | undefined;
+  total: number | undefined;
+  isLoading: boolean;
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export function RealisedPnlChart({ history, total, isLoading }: RealisedPnlChartProps) {
+  const chartData = useMemo(() => {
+    if (!history || history.length === 0) return null;
+
+    return {
+      datasets: [
+        {
+          label: 'Realised P&L',
+          data: history.map((point) => ({
+            x: new Date(point.timestamp),
+            y: point.cumulativePnl,
+          })),
+          borderColor: '#30d158',
+          backgroundColor: '#30d158',
+          borderWidth: 2,
+          pointRadius: 2,
+          stepped: true,
+        },
+      ],
+    };
+  }, [history]);
+
+  const options: ChartOptions<'line'> = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          backgroundColor: 'rgba(0, 0, 0, 0.8)',
+          padding: 12,
+          callbacks: {
+            label: (context) => `Realised P&L: $${(context.parsed.y ?? 0).toFixed(2)}`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          type: 'time' as const,
+          time: {
+            unit: 'day',
+            displayFormats: { day: 'MMM d' },
+          },
+          grid: { display: false },
+        },
+        y: {
+          grid: { color: 'rgba(0, 0, 0, 0.05)' },
+          ticks: { callback: (value) => `$${value}` },
+        },
+      },
+    }),
+    []
+  );
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-medium">Realised P&L</CardTitle>
+        {total !== undefined && (
+          <span className={cn('text-lg font-bold', total >= 0 ? 'text-green-500' : 'text-red-500')}>
+            {formatCurrency(total)}
+          </span>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : chartData ? (
+          <div className="h-[200px]">
+            <Line data={chartData} options={options} />
+          </div>
+        ) : (
+          <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+            No closed positions yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { useRefreshRuns } from '@/hooks/use-refresh-runs';
+import type { RefreshHealth } from '@/lib/types';
+
+const STATUS_STYLES: Record<RefreshHealth['status'], { dot: string; label: string }> = {
+  ok: { dot: 'bg-green-500', label: 'Refresh OK' },
+  failing: { dot: 'bg-red-500', label: 'Refresh failing' },
+  stale: { dot: 'bg-red-500', label: 'Data stale' },
+  paused: { dot: 'bg-amber-500', label: 'Refresh paused' },
+  unknown: { dot: 'bg-gray-400', label: 'No refreshes yet' },
+};
+
+function describe(health: RefreshHealth): string {
+  const lines = [];
+  if (health.pause) {
+    lines.push(
+      `Paused until ${new Date(health.pause.until).toLocaleString()}: ${health.pause.reason}`
+    );
+  }
+  if (health.lastSuccessAt) {
+    lines.push(`Last successful refresh: ${new Date(health.lastSuccessAt).toLocaleString()}`);
+  }
+  if (health.consecutiveFailures > 0) {
+    lines.push(`${health.consecutiveFailures} failed run(s) in a row`);
+  }
+  if (health.lastError) {
+    lines.push(`Last error: ${health.lastError}`);
+  }
+  return lines.join('\n');
+}
+
+// Dot in the header that turns red when refreshes keep failing or data is
+// stale, and amber while refreshes are paused by backoff
+export function RefreshStatus() {
+  const { data } = useRefreshRuns();
+
+  if (!data) {
+    return null;
+  }
+
+  const { health } = data;
+  const style = STATUS_STYLES[health.status];
+  const isProblem = health.status === 'failing' || health.status === 'stale';
+  const pause = health.status === 'paused' ? health.pause : null;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-2 text-sm',
+        isProblem && 'text-red-600 font-medium',
+        pause && 'text-amber-700 font-medium',
+        !isProblem && !pause && 'text-muted-foreground'
+      )}
+      title={describe(health)}
+    >
+      <span className={cn('h-2 w-2 rounded-full', style.dot)} />
+      {isProblem && style.label}
+      {pause && `${style.label} until ${new Date(pause.until).toLocaleTimeString()}`}
+    </span>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useScheduler, useUpdateScheduler } from '@/hooks/use-scheduler';
+import type { SchedulerRunSummary, SchedulerSettings } from '@/lib/types';
+
+const RUN_STATUS_STYLES: Record<SchedulerRunSummary['status'], string> = {
+  success: 'bg-green-100 text-green-800 hover:bg-green-100',
+  partial: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100',
+  failed: 'bg-red-100 text-red-800 hover:bg-red-100',
+  skipped: 'bg-gray-100 text-gray-800 hover:bg-gray-100',
+};
+
+interface SettingsFormProps {
+  settings: SchedulerSettings;
+  onSave: (settings: Partial<SchedulerSettings>) => void;
+  isSaving: boolean;
+}
+
+// Keyed on the saved settings by the panel, so it resets after every save
+function SettingsForm({ settings, onSave, isSaving }: SettingsFormProps) {
+  const [refreshInterval, setRefreshInterval] = useState(String(settings.refreshIntervalMinutes));
+  const [healthCheckInterval, setHealthCheckInterval] = useState(
+    String(settings.healthCheckIntervalMinutes)
+  );
+  const [quietStart, setQuietStart] = useState(settings.quietHoursStart ?? '');
+  const [quietEnd, setQuietEnd] = useState(settings.quietHoursEnd ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      refreshIntervalMinutes: parseInt(refreshInterval, 10),
+      healthCheckIntervalMinutes: parseInt(healthCheckInterval, 10),
+      quietHoursStart: quietStart && quietEnd ? quietStart : null,
+      quietHoursEnd: quietStart && quietEnd ? quietEnd : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+      <div className="space-y-2">
+        <Label htmlFor="refresh-interval">Refresh every (min)</Label>
+        <Input
+          id="refresh-interval"
+          type="number"
+          min={1}
+          value={refreshInterval}
+          onChange={(e) => setRefreshInterval(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="health-check-interval">Health check every (min)</Label>
+        <Input
+          id="health-check-interval"
+          type="number"
+          min={1}
+          value={healthCheckInterval}
+          onChange={(e) => setHealthCheckInterval(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="quiet-start">Quiet hours from</Label>
+        <Input
+          id="quiet-start"
+          type="time"
+          value={quietStart}
+          onChange={(e) => setQuietStart(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="quiet-end">Quiet hours until</Label>
+        <Input
+          id="quiet-end"
+          type="time"
+          value={quietEnd}
+          onChange={(e) => setQuietEnd(e.target.value)}
+        />
+      </div>
+      <Button type="submit" variant="outline" disabled={isSaving}>
+        {isSaving ? 'Saving...' : 'Save'}
+      </Button>
+    </form>
+  );
+}
+
+export function SchedulerPanel() {
+  const { data, isLoading } = useScheduler();
+  const { mutate: update, isPending, error } = useUpdateScheduler();
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-[200px]" />;
+  }
+
+  const { settings, status } = data;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg font-medium">
+          Auto-refresh
+          <Badge variant={status.running ? 'default' : 'secondary'}>
+            {status.running ? 'Running' : 'Stopped'}
+          </Badge>
+          {status.inQuietHours && <Badge variant="outline">Quiet hours</Badge>}
+          {status.pause && <Badge className="bg-amber-100 text-amber-800">Paused</Badge>}
+          {settings.passiveListening && <Badge variant="outline">Listening</Badge>}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            title="Save portfolio messages the bot posts on its own, e.g. when used from your phone"
+            onClick={() => update({ passiveListening: !settings.passiveListening })}
+          >
+            {settings.passiveListening ? 'Stop listening' : 'Listen'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            onClick={() => update({ action: status.running ? 'stop' : 'start' })}
+          >
+            {status.running ? 'Stop' : 'Start'}
+          </Button>
+          <Button size="sm" disabled={isPending} onClick={() => update({ action: 'run-now' })}>
+            Run now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 text-sm sm:grid-cols-2">
+          <div>
+            <span className="text-muted-foreground">Next run: </span>
+            {status.nextRunAt ? new Date(status.nextRunAt).toLocaleString() : '—'}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Last run: </span>
+            {status.lastRun ? (
+              <>
+                <Badge className={RUN_STATUS_STYLES[status.lastRun.status]}>
+                  {status.lastRun.status}
+                </Badge>
+                {new Date(status.lastRun.finishedAt).toLocaleString()}
+              </>
+            ) : (
+              '—'
+            )}
+          </div>
+        </div>
+
+        {status.pause && (
+          <p className="text-sm text-amber-700">
+            Refreshes paused until {new Date(status.pause.until).toLocaleString()}:{' '}
+            {status.pause.reason}
+          </p>
+        )}
+
+        {status.lastRun?.error && (
+          <p
+            className={cn(
+              'text-sm',
+              status.lastRun.status === 'skipped' ? 'text-muted-foreground' : 'text-red-600'
+            )}
+          >
+            {status.lastRun.error}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+        <SettingsForm
+          key={JSON.stringify(settings)}
+          settings={settings}
+          onSave={update}
+          isSaving={isPending}
+        />
+      </CardContent>
+    </Card>
+  );
+}
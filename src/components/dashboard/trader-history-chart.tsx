@@ -0,0 +1,106 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  TimeScale,
+  type ChartOptions,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import 'chartjs-adapter-date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { TraderHistoryPoint } from '@/lib/types';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend, TimeScale);
+
+interface TraderHistoryChartProps {
+  history: TraderHistoryPoint[];
+}
+
+export function TraderHistoryChart({ history }: TraderHistoryChartProps) {
+  const chartData = useMemo(() => {
+    const line = (label: string, color: string, value: (point: TraderHistoryPoint) => number) => ({
+      label,
+      data: history.map((point) => ({ x: new Date(point.timestamp), y: value(point) })),
+      borderColor: color,
+      backgroundColor: color,
+      borderWidth: 2,
+      pointRadius: 0,
+      tension: 0.4,
+    });
+
+    return {
+      datasets: [
+        line('Invested', '#007aff', (point) => point.invested),
+        line('Total P&L', '#30d158', (point) => point.totalPnl),
+        line('Realised P&L', '#af52de', (point) => point.realisedPnl),
+      ],
+    };
+  }, [history]);
+
+  const options: ChartOptions<'line'> = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        mode: 'index' as const,
+        intersect: false,
+      },
+      plugins: {
+        legend: {
+          position: 'top' as const,
+          labels: {
+            usePointStyle: true,
+            padding: 20,
+          },
+        },
+        tooltip: {
+          backgroundColor: 'rgba(0, 0, 0, 0.8)',
+          padding: 12,
+          callbacks: {
+            label: (context) => `${context.dataset.label}: $${(context.parsed.y ?? 0).toFixed(2)}`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          type: 'time' as const,
+          time: {
+            unit: 'day',
+            displayFormats: { day: 'MMM d' },
+          },
+          grid: { display: false },
+        },
+        y: {
+          grid: { color: 'rgba(0, 0, 0, 0.05)' },
+          ticks: { callback: (value) => `$${value}` },
+        },
+      },
+    }),
+    []
+  );
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-xl border-border/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-medium">Invested and P&L</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {history.length > 0 ? (
+          <div className="h-[300px]">
+            <Line data={chartData} options={options} />
+          </div>
+        ) : (
+          <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+            No history for this trader
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useTraders } from '@/hooks/use-traders';
+import type { TraderStats } from '@/lib/types';
+
+interface TraderLeaderboardProps {
+  accountId?: number;
+}
+
+type SortKey = keyof TraderStats | 'totalPnl';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'trader', label: 'Trader' },
+  { key: 'openPositions', label: 'Open' },
+  { key: 'exposure', label: 'Exposure' },
+  { key: 'unrealisedPnl', label: 'Unrealised' },
+  { key: 'realisedPnl', label: 'Realised' },
+  { key: 'totalPnl', label: 'Total P&L' },
+  { key: 'winRate', label: 'Win Rate' },
+  { key: 'avgReturnPct', label: 'Avg Return' },
+  { key: 'maxDrawdown', label: 'Max Drawdown' },
+];
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null) return '—';
+  const sign = value >= 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+function sortValue(trader: TraderStats, key: SortKey): string | number | null {
+  if (key === 'totalPnl') return trader.realisedPnl + trader.unrealisedPnl;
+  return trader[key];
+}
+
+// Traders without a value (e.g. no closed positions for win rate) come last
+// whichever way the column is sorted
+function compareTraders(a: TraderStats, b: TraderStats, key: SortKey, descending: boolean) {
+  const left = sortValue(a, key);
+  const right = sortValue(b, key);
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? 1 : -1;
+  }
+
+  const order =
+    typeof left === 'string' || typeof right === 'string'
+      ? String(left).localeCompare(String(right))
+      : left - right;
+  return descending ? -order : order;
+}
+
+function pnlClass(value: number): string {
+  return value >= 0 ? 'text-green-500' : 'text-red-500';
+}
+
+export function TraderLeaderboard({ accountId }: TraderLeaderboardProps) {
+  const { data, isLoading } = useTraders(accountId);
+  const [sortKey, setSortKey] = useState<SortKey>('totalPnl');
+  const [descending, setDescending] = useState(true);
+
+  const traders = useMemo(() => {
+    return [...(data?.traders ?? [])].sort((a, b) =>
+      compareTraders(a, b, sortKey, descending)
+    );
+  }, [data, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'trader');
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[200px]" />;
+  }
+
+  if (traders.length === 0) {
+    return (
+      <div className="rounded-lg border bg-white/80 backdrop-blur-xl p-8 text-center">
+        <p className="text-muted-foreground">No copied traders yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-white/80 backdrop-blur-xl overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {COLUMNS.map((column) => (
+              <TableHead
+                key={column.key}
+                className={cn('cursor-pointer select-none', column.key !== 'trader' && 'text-right')}
+                onClick={() => handleSort(column.key)}
+              >
+                <span className="inline-flex items-center gap-1">
+                  {column.label}
+                  {sortKey === column.key &&
+                    (descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                </span>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {traders.map((trader) => {
+            const totalPnl = trader.realisedPnl + trader.unrealisedPnl;
+            return (
+              <TableRow key={trader.trader} className="hover:bg-muted/50">
+                <TableCell className="font-medium">
+                  <Link
+                    href={`/traders/${encodeURIComponent(trader.trader)}`}
+                    className="hover:underline"
+                  >
+                    {trader.trader}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-right">{trader.openPositions}</TableCell>
+                <TableCell className="text-right">{formatCurrency(trader.exposure)}</TableCell>
+                <TableCell className={cn('text-right', pnlClass(trader.unrealisedPnl))}>
+                  {formatCurrency(trader.unrealisedPnl)}
+                </TableCell>
+                <TableCell className={cn('text-right', pnlClass(trader.realisedPnl))}>
+                  {formatCurrency(trader.realisedPnl)}
+                </TableCell>
+                <TableCell className={cn('text-right font-medium', pnlClass(totalPnl))}>
+                  {formatCurrency(totalPnl)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {trader.winRate === null ? '—' : `${trader.winRate.toFixed(0)}%`}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    'text-right',
+                    trader.avgReturnPct !== null && pnlClass(trader.avgReturnPct)
+                  )}
+                >
+                  {formatPercent(trader.avgReturnPct)}
+                </TableCell>
+                <TableCell className="text-right text-red-500">
+                  {trader.maxDrawdown > 0 ? formatCurrency(-trader.maxDrawdown) : '—'}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
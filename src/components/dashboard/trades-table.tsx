@@ -0,0 +1,119 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useTrades } from '@/hooks/use-trades';
+import type { TradeAction } from '@/lib/types';
+
+interface TradesTableProps {
+  accountId?: number;
+  // Shown under each market in the combined view
+  accountNames?: Record<number, string>;
+}
+
+const ACTION_STYLES: Record<TradeAction, { label: string; className: string }> = {
+  buy: { label: 'Buy', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  sell: { label: 'Sell', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+};
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+// Trade log built from the bot's buy/sell notifications
+export function TradesTable({ accountId, accountNames }: TradesTableProps) {
+  const { data, isLoading } = useTrades(accountId);
+  const trades = data?.trades ?? [];
+
+  if (isLoading) {
+    return <Skeleton className="h-[200px]" />;
+  }
+
+  if (trades.length === 0) {
+    return (
+      <div className="rounded-lg border bg-white/80 backdrop-blur-xl p-8 text-center">
+        <p className="text-muted-foreground">
+          No trades yet. Trade notifications are saved by the history backfill and passive
+          listening.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-white/80 backdrop-blur-xl overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[40%]">Market</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead>Side</TableHead>
+            <TableHead className="text-right">Shares</TableHead>
+            <TableHead className="text-right">Price</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {trades.map((trade) => {
+            const action = ACTION_STYLES[trade.action as TradeAction] ?? ACTION_STYLES.buy;
+            return (
+              <TableRow key={trade.id} className="hover:bg-muted/50">
+                <TableCell className="font-medium">
+                  <div className="max-w-md truncate" title={trade.marketQuestion}>
+                    {trade.marketId !== null ? (
+                      <Link href={`/markets/${trade.marketId}`} className="hover:underline">
+                        {trade.marketQuestion}
+                      </Link>
+                    ) : (
+                      trade.marketQuestion
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(trade.timestamp).toLocaleString()}
+                    {trade.copiedFrom && (
+                      <>
+                        {' · Copied from '}
+                        <Link
+                          href={`/traders/${encodeURIComponent(trade.copiedFrom)}`}
+                          className="hover:underline"
+                        >
+                          {trade.copiedFrom}
+                        </Link>
+                      </>
+                    )}
+                  </span>
+                  {accountNames && accountNames[trade.accountId] && (
+                    <Badge variant="outline" className="ml-2 text-xs font-normal">
+                      {accountNames[trade.accountId]}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={action.className}>{action.label}</Badge>
+                </TableCell>
+                <TableCell>{trade.side}</TableCell>
+                <TableCell className="text-right">{trade.shares.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{trade.price.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(trade.amount)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
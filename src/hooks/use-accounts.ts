@@ -0,0 +1,26 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { Account } from '@/generated/prisma/client';
+
+interface AccountsResponse {
+  accounts: Account[];
+}
+
+export function useAccounts() {
+  return useQuery<AccountsResponse>({
+    queryKey: ['accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/accounts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch accounts');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Query string selecting one account; omitted for the combined view
+export function accountQuery(accountId?: number, prefix: '?' | '&' = '?'): string {
+  return accountId !== undefined ? `${prefix}account=${accountId}` : '';
+}
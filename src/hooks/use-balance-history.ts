@@ -3,6 +3,7 @@
 import { useQuery } from '@tanstack/react-query';
 import type { BalanceHistoryItem, InvestedByTrader, TimeRange } from '@/lib/types';
 import type { CopyTradingEvent } from '@/generated/prisma/client';
+import { accountQuery } from './use-accounts';
 
 interface BalanceHistoryResponse {
   history: BalanceHistoryItem[];
@@ -10,11 +11,13 @@ interface BalanceHistoryResponse {
   investedByTrader: InvestedByTrader[];
 }
 
-export function useBalanceHistory(range: TimeRange = '7d') {
+export function useBalanceHistory(range: TimeRange = '7d', accountId?: number) {
   return useQuery<BalanceHistoryResponse>({
-    queryKey: ['balanceHistory', range],
+    queryKey: ['balanceHistory', range, accountId ?? 'all'],
     queryFn: async () => {
-      const response = await fetch(`/api/portfolio/balance-history?range=${range}`);
+      const response = await fetch(
+        `/api/portfolio/balance-history?range=${range}${accountQuery(accountId, '&')}`
+      );
       if (!response.ok) {
         throw new Error('Failed to fetch balance history');
       }
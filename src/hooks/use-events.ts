@@ -0,0 +1,22 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { TimelineEvent } from '@/lib/types';
+import { accountQuery } from './use-accounts';
+
+interface EventsResponse {
+  events: TimelineEvent[];
+}
+
+export function useEvents(accountId?: number, limit: number = 50) {
+  return useQuery<EventsResponse>({
+    queryKey: ['events', accountId ?? 'all', limit],
+    queryFn: async () => {
+      const response = await fetch(`/api/events?limit=${limit}${accountQuery(accountId, '&')}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch events');
+      }
+      return response.json();
+    },
+  });
+}
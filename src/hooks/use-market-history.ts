@@ -0,0 +1,18 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { MarketHistory } from '@/lib/types';
+
+export function useMarketHistory(marketId: number) {
+  return useQuery<MarketHistory>({
+    queryKey: ['marketHistory', marketId],
+    queryFn: async () => {
+      const response = await fetch(`/api/markets/${marketId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch market history');
+      }
+      return response.json();
+    },
+    enabled: !Number.isNaN(marketId),
+  });
+}
@@ -2,12 +2,13 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { PortfolioSnapshotWithPositions } from '@/lib/types';
+import { accountQuery } from './use-accounts';
 
-export function usePortfolio() {
+export function usePortfolio(accountId?: number) {
   return useQuery<PortfolioSnapshotWithPositions>({
-    queryKey: ['portfolio', 'latest'],
+    queryKey: ['portfolio', 'latest', accountId ?? 'all'],
     queryFn: async () => {
-      const response = await fetch('/api/portfolio/latest');
+      const response = await fetch(`/api/portfolio/latest${accountQuery(accountId)}`);
       if (!response.ok) {
         throw new Error('Failed to fetch portfolio');
       }
@@ -16,22 +17,29 @@ export function usePortfolio() {
   });
 }
 
-export function useRefreshPortfolio() {
+export function useRefreshPortfolio(accountId?: number) {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async () => {
-      const response = await fetch('/api/refresh', { method: 'POST' });
+      const response = await fetch(`/api/refresh${accountQuery(accountId)}`, { method: 'POST' });
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Failed to refresh portfolio');
       }
       return response.json();
     },
+    onSettled: () => {
+      // Failed refreshes are recorded as runs too
+      queryClient.invalidateQueries({ queryKey: ['refreshRuns'] });
+    },
     onSuccess: () => {
       // Invalidate portfolio queries to refetch
       queryClient.invalidateQueries({ queryKey: ['portfolio'] });
       queryClient.invalidateQueries({ queryKey: ['balanceHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['realisedPnl'] });
+      queryClient.invalidateQueries({ queryKey: ['traders'] });
     },
   });
 }
@@ -0,0 +1,24 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { ClosedPosition, RealisedPnlPoint } from '@/lib/types';
+import { accountQuery } from './use-accounts';
+
+interface RealisedPnlResponse {
+  closedPositions: ClosedPosition[];
+  history: RealisedPnlPoint[];
+  totalRealisedPnl: number;
+}
+
+export function useRealisedPnl(accountId?: number) {
+  return useQuery<RealisedPnlResponse>({
+    queryKey: ['realisedPnl', accountId ?? 'all'],
+    queryFn: async () => {
+      const response = await fetch(`/api/portfolio/realised-pnl${accountQuery(accountId)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch realised PnL');
+      }
+      return response.json();
+    },
+  });
+}
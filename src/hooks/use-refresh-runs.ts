@@ -0,0 +1,23 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { RefreshHealth, RefreshRun } from '@/lib/types';
+
+interface RefreshRunsResponse {
+  runs: RefreshRun[];
+  health: RefreshHealth;
+}
+
+export function useRefreshRuns(limit: number = 20) {
+  return useQuery<RefreshRunsResponse>({
+    queryKey: ['refreshRuns', limit],
+    queryFn: async () => {
+      const response = await fetch(`/api/refresh-runs?limit=${limit}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch refresh runs');
+      }
+      return response.json();
+    },
+    refetchInterval: 60 * 1000,
+  });
+}
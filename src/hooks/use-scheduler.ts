@@ -0,0 +1,57 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { SchedulerSettings, SchedulerStatus } from '@/lib/types';
+
+interface SchedulerResponse {
+  settings: SchedulerSettings;
+  status: SchedulerStatus;
+}
+
+export type SchedulerUpdate = Partial<SchedulerSettings> & {
+  action?: 'start' | 'stop' | 'run-now';
+};
+
+export function useScheduler() {
+  return useQuery<SchedulerResponse>({
+    queryKey: ['scheduler'],
+    queryFn: async () => {
+      const response = await fetch('/api/scheduler');
+      if (!response.ok) {
+        throw new Error('Failed to fetch scheduler settings');
+      }
+      return response.json();
+    },
+    refetchInterval: 30 * 1000,
+  });
+}
+
+export function useUpdateScheduler() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (update: SchedulerUpdate) => {
+      const response = await fetch('/api/scheduler', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update scheduler');
+      }
+      return data;
+    },
+    onSuccess: (_data, update) => {
+      queryClient.invalidateQueries({ queryKey: ['scheduler'] });
+      if (update.action === 'run-now') {
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+        queryClient.invalidateQueries({ queryKey: ['balanceHistory'] });
+        queryClient.invalidateQueries({ queryKey: ['events'] });
+        queryClient.invalidateQueries({ queryKey: ['realisedPnl'] });
+        queryClient.invalidateQueries({ queryKey: ['traders'] });
+        queryClient.invalidateQueries({ queryKey: ['refreshRuns'] });
+      }
+    },
+  });
+}
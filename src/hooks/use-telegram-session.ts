@@ -0,0 +1,47 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { TelegramSessionInfo } from '@/lib/types';
+
+interface TelegramSessionResponse {
+  session: TelegramSessionInfo;
+}
+
+interface LogOutResponse {
+  success: boolean;
+  revoked: boolean;
+  warning?: string;
+}
+
+export function useTelegramSession() {
+  return useQuery<TelegramSessionResponse>({
+    queryKey: ['telegramSession'],
+    queryFn: async () => {
+      const response = await fetch('/api/auth/session');
+      if (!response.ok) {
+        throw new Error('Failed to fetch Telegram session');
+      }
+      return response.json();
+    },
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useLogOutTelegram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<LogOutResponse> => {
+      const response = await fetch('/api/auth/session', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to log out of Telegram');
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['telegramSession'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduler'] });
+    },
+  });
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ClosedPosition,
+  CopyTradingEvent,
+  Position,
+  TraderHistoryPoint,
+  TraderStats,
+} from '@/lib/types';
+
+interface TraderResponse {
+  trader: string;
+  stats: TraderStats | null;
+  openPositions: Position[];
+  closedPositions: ClosedPosition[];
+  history: TraderHistoryPoint[];
+  events: CopyTradingEvent[];
+}
+
+export function useTrader(name: string) {
+  return useQuery<TraderResponse>({
+    queryKey: ['traders', 'detail', name],
+    queryFn: async () => {
+      const response = await fetch(`/api/traders/${encodeURIComponent(name)}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Trader not found' : 'Failed to fetch trader');
+      }
+      return response.json();
+    },
+  });
+}
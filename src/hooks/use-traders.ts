@@ -0,0 +1,22 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { TraderStats } from '@/lib/types';
+import { accountQuery } from './use-accounts';
+
+interface TradersResponse {
+  traders: TraderStats[];
+}
+
+export function useTraders(accountId?: number) {
+  return useQuery<TradersResponse>({
+    queryKey: ['traders', accountId ?? 'all'],
+    queryFn: async () => {
+      const response = await fetch(`/api/traders${accountQuery(accountId)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch trader stats');
+      }
+      return response.json();
+    },
+  });
+}
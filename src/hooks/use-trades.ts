@@ -0,0 +1,22 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { Trade } from '@/lib/types';
+import { accountQuery } from './use-accounts';
+
+interface TradesResponse {
+  trades: Trade[];
+}
+
+export function useTrades(accountId?: number, limit: number = 100) {
+  return useQuery<TradesResponse>({
+    queryKey: ['trades', accountId ?? 'all', limit],
+    queryFn: async () => {
+      const response = await fetch(`/api/trades?limit=${limit}${accountQuery(accountId, '&')}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch trades');
+      }
+      return response.json();
+    },
+  });
+}
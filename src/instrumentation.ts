@@ -7,6 +7,60 @@ export async function register() {
       // Import dynamically to avoid issues with edge runtime
       const { initializeTelegramClient } = await import('./lib/telegram');
       const { startScheduler } = await import('./lib/scheduler');
+      const { syncAccountsFromEnv } = await import('./lib/accounts');
+
+      // Create the first dashboard user and drop expired login sessions and
+      // unfinished Telegram logins
+      const { ensureInitialUser } = await import('./lib/access');
+      const { deleteExpiredPendingAuths, deleteExpiredUserSessions } = await import('./lib/db');
+      const initialUser = await ensureInitialUser();
+      if (initialUser) {
+        console.log(`[INSTRUMENTATION] Created dashboard user ${initialUser.username}`);
+      }
+      await deleteExpiredUserSessions();
+      await deleteExpiredPendingAuths();
+
+      // Create accounts for bots configured through the environment
+      const accounts = await syncAccountsFromEnv();
+      console.log(`[INSTRUMENTATION] ${accounts.length} account(s) configured`);
+
+      // Link positions saved before markets were tracked
+      const { linkPositionsToMarkets } = await import('./lib/db');
+      const linked = await linkPositionsToMarkets();
+      if (linked > 0) {
+        console.log(`[INSTRUMENTATION] Linked ${linked} position(s) to markets`);
+      }
+
+      // Without a key, logins are refused rather than stored in plaintext
+      const { allowsPlaintextSessions, getSessionKeys } = await import('./lib/session-crypto');
+      if (!getSessionKeys()) {
+        if (allowsPlaintextSessions()) {
+          console.warn(
+            '[INSTRUMENTATION] ALLOW_PLAINTEXT_SESSIONS is set: Telegram sessions are stored unencrypted'
+          );
+        } else {
+          console.error(
+            '[INSTRUMENTATION] SESSION_ENCRYPTION_KEY is not set: Telegram logins will fail until it is. ' +
+              'Set ALLOW_PLAINTEXT_SESSIONS=true to store sessions unencrypted instead.'
+          );
+        }
+      }
+
+      // Encrypt a plaintext Telegram session, or re-encrypt it after a key rotation
+      const { migrateTelegramSession } = await import('./lib/db');
+      try {
+        const migration = await migrateTelegramSession();
+        if (migration === 'imported') {
+          console.log(
+            '[INSTRUMENTATION] Moved TELEGRAM_SESSION into the database, encrypted; ' +
+              'it can now be removed from the environment'
+          );
+        } else if (migration !== 'unchanged') {
+          console.log(`[INSTRUMENTATION] Telegram session ${migration} with the current key`);
+        }
+      } catch (error) {
+        console.error('[INSTRUMENTATION] Could not migrate Telegram session:', error);
+      }
 
       // Initialize Telegram client
       const client = await initializeTelegramClient();
@@ -15,8 +69,11 @@ export async function register() {
         console.log('[INSTRUMENTATION] Telegram client initialized');
 
         // Start the scheduler for auto-refresh and health checks
-        startScheduler();
-        console.log('[INSTRUMENTATION] Scheduler started');
+        await startScheduler();
+
+        // Listen for portfolio messages the bots post on their own, if enabled
+        const { syncPassiveListener } = await import('./lib/passive-listener');
+        await syncPassiveListener();
       } else {
         console.log(
           '[INSTRUMENTATION] Telegram client not initialized (missing credentials)'
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Api, TelegramClient } from 'telegram';
+import { BotReplyWatcher } from '../bot-replies';
+
+const BOT_ID = '42';
+
+// Stands in for gramjs: lets the test push updates to the registered handlers
+function fakeClient() {
+  const handlers = new Set<(event: { message: Api.Message }) => void>();
+  const client = {
+    addEventHandler: (handler: (event: { message: Api.Message }) => void) => handlers.add(handler),
+    removeEventHandler: (handler: (event: { message: Api.Message }) => void) =>
+      handlers.delete(handler),
+  };
+  const send = (id: number, text: string, senderId = BOT_ID) => {
+    const message = { id, message: text, senderId: { toString: () => senderId } };
+    for (const handler of handlers) {
+      handler({ message: message as unknown as Api.Message });
+    }
+  };
+  return { client: client as unknown as TelegramClient, send, handlers };
+}
+
+function watcher(client: TelegramClient) {
+  return new BotReplyWatcher(client, BOT_ID, (message) => message.message.includes('Loading'));
+}
+
+describe('BotReplyWatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the placeholder to be edited into the final reply', async () => {
+    const { client, send } = fakeClient();
+    const replies = watcher(client);
+    replies.start();
+
+    const reply = replies.waitForReply(11, new Set(), 30000);
+    send(11, 'Loading...');
+    await vi.advanceTimersByTimeAsync(5000);
+    send(11, 'Total Balance: $100 (partial)');
+    await vi.advanceTimersByTimeAsync(500);
+    send(11, 'Total Balance: $120');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await reply)?.message).toBe('Total Balance: $120');
+    replies.stop();
+  });
+
+  it('ignores other senders and messages from before the command', async () => {
+    const { client, send } = fakeClient();
+    const replies = watcher(client);
+    replies.start();
+
+    send(9, 'Total Balance: $1 (old)');
+    const reply = replies.waitForReply(11, new Set(), 30000);
+    send(12, 'Hello from someone else', '7');
+    send(12, 'Total Balance: $100');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await reply)?.id).toBe(12);
+    replies.stop();
+  });
+
+  it('picks up a reply that arrived before waiting started', async () => {
+    const { client, send } = fakeClient();
+    const replies = watcher(client);
+    replies.start();
+
+    send(11, 'Total Balance: $100');
+    const reply = replies.waitForReply(11, new Set(), 30000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await reply)?.id).toBe(11);
+    replies.stop();
+  });
+
+  it('treats an in-place edit with new text as the next page', async () => {
+    const { client, send } = fakeClient();
+    const replies = watcher(client);
+    replies.start();
+
+    send(11, 'Page 1');
+    const reply = replies.waitForReply(11, new Set(['Page 1']), 15000);
+    await vi.advanceTimersByTimeAsync(1000);
+    send(11, 'Page 2');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await reply)?.message).toBe('Page 2');
+    replies.stop();
+  });
+
+  it('falls back to the placeholder on timeout and removes its handlers', async () => {
+    const { client, send, handlers } = fakeClient();
+    const replies = watcher(client);
+    replies.start();
+
+    const reply = replies.waitForReply(11, new Set(), 30000);
+    send(11, 'Loading...');
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect((await reply)?.message).toBe('Loading...');
+    replies.stop();
+    expect(handlers.size).toBe(0);
+  });
+
+  it('resolves with null when the bot says nothing', async () => {
+    const { client } = fakeClient();
+    const replies = watcher(client);
+    replies.start();
+
+    const reply = replies.waitForReply(11, new Set(), 30000);
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(await reply).toBeNull();
+    replies.stop();
+  });
+});
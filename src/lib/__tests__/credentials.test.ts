@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import {
+  API_TOKEN_PREFIX,
+  generateToken,
+  hashPassword,
+  hashToken,
+  verifyPassword,
+} from '../credentials';
+
+describe('password hashing', () => {
+  it('verifies the right password and rejects others', () => {
+    const stored = hashPassword('correct horse battery staple');
+
+    expect(stored).not.toContain('correct horse');
+    expect(verifyPassword('correct horse battery staple', stored)).toBe(true);
+    expect(verifyPassword('Correct horse battery staple', stored)).toBe(false);
+  });
+
+  it('salts every hash', () => {
+    expect(hashPassword('password1')).not.toBe(hashPassword('password1'));
+  });
+
+  it('rejects malformed stored hashes', () => {
+    expect(verifyPassword('password1', '')).toBe(false);
+    expect(verifyPassword('password1', 'md5$abc')).toBe(false);
+  });
+});
+
+describe('tokens', () => {
+  it('generates distinct prefixed tokens with stable hashes', () => {
+    const token = generateToken(API_TOKEN_PREFIX);
+
+    expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(generateToken(API_TOKEN_PREFIX)).not.toBe(token);
+    expect(hashToken(token)).toBe(hashToken(token));
+    expect(hashToken(token)).not.toContain(token);
+  });
+});
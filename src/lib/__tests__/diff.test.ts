@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { diffPositions, type DiffPosition } from '../diff';
+import { position } from './fixtures/positions';
+
+function eventTypes(previous: DiffPosition[], current: DiffPosition[]): string[] {
+  return diffPositions(previous, current).map((change) => change.eventType);
+}
+
+describe('diffPositions', () => {
+  it('reports nothing when positions are unchanged', () => {
+    expect(eventTypes([position()], [position({ value: 70, pnlUsd: 20 })])).toEqual([]);
+  });
+
+  it('detects opened and closed positions', () => {
+    const changes = diffPositions([position()], [position({ marketId: 2, marketQuestion: 'Other?' })]);
+    expect(changes.map((change) => change.eventType)).toEqual(['position_opened', 'position_closed']);
+    expect(changes[1].position.value).toBe(60);
+    expect(changes[1].shares).toBeNull();
+  });
+
+  it('treats a position last priced at 0 or 1 as resolved', () => {
+    expect(eventTypes([position({ value: 100 })], [])).toEqual(['position_resolved']);
+    expect(eventTypes([position({ value: 0 })], [])).toEqual(['position_resolved']);
+  });
+
+  it('detects resizes beyond rounding', () => {
+    expect(eventTypes([position()], [position({ shares: 150 })])).toEqual(['position_increased']);
+    expect(eventTypes([position()], [position({ shares: 40 })])).toEqual(['position_decreased']);
+    expect(eventTypes([position()], [position({ shares: 100.005 })])).toEqual([]);
+  });
+
+  it('detects a side flip as one event', () => {
+    const changes = diffPositions([position()], [position({ side: 'No', shares: 80 })]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ eventType: 'side_flipped', previousShares: 100, shares: 80 });
+  });
+
+  it('matches markets by normalised question when they have no id', () => {
+    const previous = [position({ marketId: null, marketQuestion: 'Will it rain tomorrow?' })];
+    const current = [position({ marketId: null, marketQuestion: 'will it rain  tomorrow' })];
+    expect(eventTypes(previous, current)).toEqual([]);
+  });
+});
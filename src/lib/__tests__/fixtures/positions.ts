@@ -0,0 +1,17 @@
+import type { LedgerPosition } from '../../ledger';
+
+// A position as the diff, ledger and trader stats see it: 100 Yes shares
+// bought for $50 and now worth $60, not copied from anyone
+export function position(overrides: Partial<LedgerPosition> = {}): LedgerPosition {
+  return {
+    marketId: 1,
+    marketQuestion: 'Will it rain tomorrow?',
+    side: 'Yes',
+    shares: 100,
+    invested: 50,
+    value: 60,
+    pnlUsd: 10,
+    copiedFrom: null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildClosedPositions,
+  cumulativeRealisedPnl,
+  type LedgerPosition,
+  type LedgerSnapshot,
+} from '../ledger';
+import { position } from './fixtures/positions';
+
+function snapshot(
+  id: number,
+  timestamp: string,
+  positions: LedgerPosition[],
+  accountId = 1
+): LedgerSnapshot {
+  return { id, timestamp, accountId, positions };
+}
+
+describe('buildClosedPositions', () => {
+  it('realises a position at its last seen value when it disappears', () => {
+    const closed = buildClosedPositions([
+      snapshot(1, '2025-01-01T00:00:00.000Z', [position()]),
+      snapshot(2, '2025-01-02T00:00:00.000Z', [position({ value: 40 })]),
+      snapshot(3, '2025-01-03T00:00:00.000Z', []),
+    ]);
+
+    expect(closed).toHaveLength(1);
+    expect(closed[0]).toMatchObject({
+      openedAt: '2025-01-01T00:00:00.000Z',
+      closedAt: '2025-01-03T00:00:00.000Z',
+      exitValue: 40,
+      realisedPnl: -10,
+      returnPct: -20,
+      outcome: 'closed',
+      holdingMs: 2 * 24 * 60 * 60 * 1000,
+    });
+  });
+
+  it('labels resolved positions as won or lost', () => {
+    const closed = buildClosedPositions([
+      snapshot(1, '2025-01-01T00:00:00.000Z', [
+        position({ value: 100 }),
+        position({ marketId: 2, marketQuestion: 'Other?', value: 0 }),
+      ]),
+      snapshot(2, '2025-01-02T00:00:00.000Z', []),
+    ]);
+
+    expect(closed.map((entry) => entry.outcome).sort()).toEqual(['lost', 'won']);
+  });
+
+  it('keeps open positions out of the ledger and tracks accounts separately', () => {
+    const closed = buildClosedPositions([
+      snapshot(1, '2025-01-01T00:00:00.000Z', [position()], 1),
+      snapshot(2, '2025-01-01T01:00:00.000Z', [], 2),
+      snapshot(3, '2025-01-02T00:00:00.000Z', [position()], 1),
+    ]);
+
+    expect(closed).toEqual([]);
+  });
+
+  it('closes the old side on a side flip', () => {
+    const closed = buildClosedPositions([
+      snapshot(1, '2025-01-01T00:00:00.000Z', [position()]),
+      snapshot(2, '2025-01-02T00:00:00.000Z', [position({ side: 'No' })]),
+    ]);
+
+    expect(closed).toHaveLength(1);
+    expect(closed[0].side).toBe('Yes');
+  });
+});
+
+describe('cumulativeRealisedPnl', () => {
+  it('sums realised PnL in close order', () => {
+    const closed = buildClosedPositions([
+      snapshot(1, '2025-01-01T00:00:00.000Z', [
+        position(),
+        position({ marketId: 2, marketQuestion: 'Other?', value: 45 }),
+      ]),
+      snapshot(2, '2025-01-02T00:00:00.000Z', [position()]),
+      snapshot(3, '2025-01-03T00:00:00.000Z', []),
+    ]);
+
+    expect(cumulativeRealisedPnl(closed).map((point) => point.cumulativePnl)).toEqual([-5, 5]);
+  });
+});
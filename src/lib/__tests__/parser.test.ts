@@ -0,0 +1,62 @@
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { isParseAcceptable, parsePortfolioPages } from '../parser';
+import type { BotMessage } from '../types';
+
+// Each fixture directory holds the bot's pages in order (page-1.txt for plain
+// text, page-1.json for a structured BotMessage with entities and buttons)
+// and expected.json with the ParsedPortfolio they should produce.
+//
+// After an intentional parser change, regenerate with
+//   UPDATE_FIXTURES=1 npm test
+// and review the diff of every expected.json before committing.
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'parser');
+const FIXTURE_TIMESTAMP = new Date('2025-01-15T12:00:00.000Z');
+
+function loadPages(dir: string): Array<BotMessage | string> {
+  return readdirSync(dir)
+    .filter((file) => /^page-\d+\.(txt|json)$/.test(file))
+    .sort((a, b) => parseInt(a.slice(5), 10) - parseInt(b.slice(5), 10))
+    .map((file) => {
+      const content = readFileSync(path.join(dir, file), 'utf8');
+      if (file.endsWith('.txt')) {
+        return content;
+      }
+      const message = JSON.parse(content);
+      return { ...message, date: new Date(message.date) } as BotMessage;
+    });
+}
+
+describe('parsePortfolioPages fixtures', () => {
+  const fixtures = readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name);
+
+  it.each(fixtures)('%s', (fixture) => {
+    const dir = path.join(FIXTURES_DIR, fixture);
+    const expectedPath = path.join(dir, 'expected.json');
+    const parsed = parsePortfolioPages(loadPages(dir), FIXTURE_TIMESTAMP);
+
+    if (process.env.UPDATE_FIXTURES) {
+      writeFileSync(expectedPath, JSON.stringify(parsed, null, 2) + '\n');
+    }
+
+    expect(parsed).toEqual(JSON.parse(readFileSync(expectedPath, 'utf8')));
+  });
+});
+
+describe('isParseAcceptable', () => {
+  const parseFixture = (fixture: string) =>
+    parsePortfolioPages(loadPages(path.join(FIXTURES_DIR, fixture)), FIXTURE_TIMESTAMP);
+
+  it('accepts a complete portfolio', () => {
+    expect(isParseAcceptable(parseFixture('pagination'))).toBe(true);
+  });
+
+  it('rejects a portfolio missing positions even when otherwise confident', () => {
+    const parsed = parseFixture('incomplete-page');
+    expect(parsed.confidence).toBeGreaterThanOrEqual(0.5);
+    expect(isParseAcceptable(parsed)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isInQuietHours, lastQuietHoursEnd } from '../quiet-hours';
+
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 0, 15, hours, minutes);
+}
+
+function quietHours(quietHoursStart: string | null, quietHoursEnd: string | null) {
+  return { quietHoursStart, quietHoursEnd };
+}
+
+describe('isInQuietHours', () => {
+  it('is never quiet without both ends set', () => {
+    expect(isInQuietHours(quietHours(null, null), at('03:00'))).toBe(false);
+    expect(isInQuietHours(quietHours('01:00', null), at('03:00'))).toBe(false);
+    expect(isInQuietHours(quietHours(null, '07:00'), at('03:00'))).toBe(false);
+  });
+
+  it('covers a same-day range, including its start but not its end', () => {
+    const settings = quietHours('09:00', '17:30');
+
+    expect(isInQuietHours(settings, at('08:59'))).toBe(false);
+    expect(isInQuietHours(settings, at('09:00'))).toBe(true);
+    expect(isInQuietHours(settings, at('12:00'))).toBe(true);
+    expect(isInQuietHours(settings, at('17:29'))).toBe(true);
+    expect(isInQuietHours(settings, at('17:30'))).toBe(false);
+  });
+
+  it('wraps past midnight', () => {
+    const settings = quietHours('23:00', '07:00');
+
+    expect(isInQuietHours(settings, at('22:59'))).toBe(false);
+    expect(isInQuietHours(settings, at('23:00'))).toBe(true);
+    expect(isInQuietHours(settings, at('00:00'))).toBe(true);
+    expect(isInQuietHours(settings, at('06:59'))).toBe(true);
+    expect(isInQuietHours(settings, at('07:00'))).toBe(false);
+    expect(isInQuietHours(settings, at('12:00'))).toBe(false);
+  });
+});
+
+describe('lastQuietHoursEnd', () => {
+  it('is the end of today\'s quiet period once it has passed', () => {
+    expect(lastQuietHoursEnd(quietHours('23:00', '07:00'), at('09:30'))).toEqual(at('07:00'));
+  });
+
+  it('is yesterday\'s end before today\'s has come', () => {
+    const ended = lastQuietHoursEnd(quietHours('09:00', '17:30'), at('08:00'));
+    expect(ended).toEqual(new Date(2026, 0, 14, 17, 30));
+  });
+
+  it('is null without quiet hours', () => {
+    expect(lastQuietHoursEnd(quietHours(null, null), at('08:00'))).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// An in-memory app_settings table in place of the database
+const settings = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('../db', () => ({
+  getSetting: async (key: string) => settings.get(key) ?? null,
+  saveSetting: async (key: string, value: string) => {
+    settings.set(key, value);
+    return true;
+  },
+}));
+
+import {
+  BREAKER_THRESHOLD,
+  getRefreshPause,
+  recordRefreshFailure,
+  recordRefreshSuccess,
+} from '../refresh-backoff';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+// How long refreshes are paused for, from now
+async function pausedForMs(): Promise<number | null> {
+  const pause = await getRefreshPause();
+  return pause ? new Date(pause.until).getTime() - NOW.getTime() : null;
+}
+
+describe('recordRefreshFailure', () => {
+  beforeEach(() => {
+    settings.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('opens the breaker only after the threshold of failures in a row', async () => {
+    for (let i = 1; i < BREAKER_THRESHOLD; i++) {
+      await recordRefreshFailure('bot_unresponsive');
+      expect(await getRefreshPause()).toBeNull();
+    }
+
+    await recordRefreshFailure('bot_unresponsive');
+    const pause = await getRefreshPause();
+    expect(pause?.kind).toBe('bot_unresponsive');
+    expect(pause?.reason).toContain(`${BREAKER_THRESHOLD} failures in a row`);
+    expect(await pausedForMs()).toBe(5 * MINUTE_MS);
+  });
+
+  it('doubles the pause with each further failure, up to two hours', async () => {
+    const pauses: Array<number | null> = [];
+    for (let i = 0; i < BREAKER_THRESHOLD + 6; i++) {
+      await recordRefreshFailure('network');
+      pauses.push(await pausedForMs());
+    }
+
+    expect(pauses.slice(BREAKER_THRESHOLD - 1)).toEqual(
+      [5, 10, 20, 40, 80, 120, 120].map((minutes) => minutes * MINUTE_MS)
+    );
+  });
+
+  it('starts counting again after a success', async () => {
+    for (let i = 0; i < BREAKER_THRESHOLD; i++) {
+      await recordRefreshFailure('network');
+    }
+    await recordRefreshSuccess();
+    expect(await getRefreshPause()).toBeNull();
+
+    await recordRefreshFailure('network');
+    expect(await getRefreshPause()).toBeNull();
+  });
+
+  it('pauses for a FLOOD_WAIT plus a margin, straight away', async () => {
+    await recordRefreshFailure('flood_wait', 120);
+
+    const pause = await getRefreshPause();
+    expect(pause?.kind).toBe('flood_wait');
+    expect(await pausedForMs()).toBe(120 * 1000 + 5 * 1000);
+  });
+
+  it('ignores session and unknown errors', async () => {
+    for (let i = 0; i < BREAKER_THRESHOLD + 1; i++) {
+      await recordRefreshFailure('auth');
+      await recordRefreshFailure('other');
+    }
+
+    expect(await getRefreshPause()).toBeNull();
+  });
+
+  it('lets a pause lapse once it has passed', async () => {
+    await recordRefreshFailure('flood_wait', 10);
+    vi.setSystemTime(new Date(NOW.getTime() + 16 * 1000));
+
+    expect(await getRefreshPause()).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// An in-memory lease table in place of the database
+const leases = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('../db', () => ({
+  acquireLease: async (name: string, holder: string) => {
+    const current = leases.get(name);
+    if (current && current !== holder) return false;
+    leases.set(name, holder);
+    return true;
+  },
+  renewLease: async () => true,
+  releaseLease: async (name: string, holder: string) => {
+    if (leases.get(name) === holder) leases.delete(name);
+  },
+}));
+
+import { withRefreshLock } from '../refresh-lock';
+
+// A task that runs until released, so tests can act while it's in flight
+function blockingTask<T>(result: T) {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const task = vi.fn(async () => {
+    await released;
+    return result;
+  });
+  return { task, release };
+}
+
+describe('withRefreshLock', () => {
+  beforeEach(() => {
+    leases.clear();
+  });
+
+  it('runs the task and releases the lock afterwards', async () => {
+    const first = await withRefreshLock({ kind: 'refresh', accountId: 1 }, async () => 'one');
+    const second = await withRefreshLock({ kind: 'historical' }, async () => 'two');
+
+    expect(first).toEqual({ acquired: true, shared: false, result: 'one' });
+    expect(second).toEqual({ acquired: true, shared: false, result: 'two' });
+    expect(leases.size).toBe(0);
+  });
+
+  it('lets a refresh of one account join a running refresh that includes it', async () => {
+    const { task, release } = blockingTask(['result']);
+    const running = withRefreshLock({ kind: 'refresh', accountIds: [1, 2] }, task);
+
+    const joiner = vi.fn(async () => ['other']);
+    const joined = withRefreshLock({ kind: 'refresh', accountId: 2 }, joiner);
+    release();
+
+    expect(await running).toEqual({ acquired: true, shared: false, result: ['result'] });
+    expect(await joined).toEqual({ acquired: true, shared: true, result: ['result'] });
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(joiner).not.toHaveBeenCalled();
+  });
+
+  it('turns away a refresh of an account the running one does not include', async () => {
+    const { task, release } = blockingTask([]);
+    const running = withRefreshLock({ kind: 'refresh', accountIds: [1] }, task);
+
+    const refused = await withRefreshLock({ kind: 'refresh', accountId: 2 }, async () => []);
+    release();
+    await running;
+
+    expect(refused).toEqual({ acquired: false, heldBy: 'refresh (all accounts)' });
+  });
+
+  it('turns away other jobs while a backfill runs', async () => {
+    const { task, release } = blockingTask(null);
+    const running = withRefreshLock({ kind: 'historical', accountId: 3 }, task);
+
+    const refresh = await withRefreshLock({ kind: 'refresh' }, async () => null);
+    const reparse = await withRefreshLock({ kind: 'reparse' }, async () => null);
+    release();
+    await running;
+
+    expect(refresh).toEqual({ acquired: false, heldBy: 'history backfill (account 3)' });
+    expect(reparse).toEqual({ acquired: false, heldBy: 'history backfill (account 3)' });
+  });
+
+  it('refuses when another process holds the lease', async () => {
+    leases.set('refresh', 'another-process');
+    const task = vi.fn(async () => null);
+
+    const refused = await withRefreshLock({ kind: 'refresh' }, task);
+
+    expect(refused).toEqual({ acquired: false, heldBy: 'another server process' });
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('releases the lock when the task throws', async () => {
+    await expect(
+      withRefreshLock({ kind: 'reparse' }, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(leases.size).toBe(0);
+    expect((await withRefreshLock({ kind: 'refresh' }, async () => 1)).acquired).toBe(true);
+  });
+});
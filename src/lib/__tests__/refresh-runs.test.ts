@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../db', () => ({}));
+vi.mock('../refresh-backoff', () => ({}));
+
+import { isRefreshStale } from '../refresh-runs';
+import type { SchedulerSettings } from '../types';
+
+const SETTINGS: SchedulerSettings = {
+  enabled: true,
+  refreshIntervalMinutes: 5,
+  healthCheckIntervalMinutes: 2,
+  quietHoursStart: '23:00',
+  quietHoursEnd: '07:00',
+  passiveListening: false,
+};
+
+function at(day: number, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 0, day, hours, minutes);
+}
+
+describe('isRefreshStale', () => {
+  it('goes stale after three missed intervals', () => {
+    const lastSuccessAt = at(15, '12:00').toISOString();
+
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(15, '12:15'))).toBe(false);
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(15, '12:16'))).toBe(true);
+  });
+
+  it('is never stale during quiet hours, even across midnight', () => {
+    const lastSuccessAt = at(15, '22:58').toISOString();
+
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(15, '23:30'))).toBe(false);
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(16, '03:00'))).toBe(false);
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(16, '06:59'))).toBe(false);
+  });
+
+  it('measures from the end of quiet hours once they are over', () => {
+    const lastSuccessAt = at(15, '22:58').toISOString();
+
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(16, '07:10'))).toBe(false);
+    expect(isRefreshStale(SETTINGS, lastSuccessAt, at(16, '07:16'))).toBe(true);
+  });
+
+  it('is not stale before anything has been refreshed', () => {
+    expect(isRefreshStale(SETTINGS, null, at(15, '12:00'))).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { randomBytes } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  decryptSession,
+  encryptSession,
+  getSessionKeys,
+  isCurrentlyEncrypted,
+  isEncryptedSession,
+  sealSession,
+} from '../session-crypto';
+
+const OLD_KEY = randomBytes(32).toString('base64');
+const NEW_KEY = randomBytes(32).toString('hex');
+const SESSION = '1BVtsOK8Bu0example-session-string==';
+
+describe('session encryption', () => {
+  it('round-trips a session without storing it in the clear', () => {
+    const keys = getSessionKeys({ SESSION_ENCRYPTION_KEY: NEW_KEY });
+    expect(keys).not.toBeNull();
+
+    const stored = encryptSession(SESSION, keys!);
+    expect(isEncryptedSession(stored)).toBe(true);
+    expect(stored).not.toContain(SESSION);
+    expect(decryptSession(stored, keys)).toBe(SESSION);
+  });
+
+  it('passes plaintext sessions through for migration', () => {
+    expect(isEncryptedSession(SESSION)).toBe(false);
+    expect(decryptSession(SESSION, null)).toBe(SESSION);
+  });
+
+  it('decrypts with an old key after rotation and flags it for re-encryption', () => {
+    const oldKeys = getSessionKeys({ SESSION_ENCRYPTION_KEY: OLD_KEY })!;
+    const stored = encryptSession(SESSION, oldKeys);
+
+    const rotated = getSessionKeys({
+      SESSION_ENCRYPTION_KEY: NEW_KEY,
+      SESSION_ENCRYPTION_OLD_KEYS: ` ${OLD_KEY} ,`,
+    })!;
+    expect(rotated.previous).toHaveLength(1);
+    expect(isCurrentlyEncrypted(stored, rotated)).toBe(false);
+    expect(decryptSession(stored, rotated)).toBe(SESSION);
+    expect(isCurrentlyEncrypted(encryptSession(SESSION, rotated), rotated)).toBe(true);
+  });
+
+  it('refuses to decrypt without the right key', () => {
+    const stored = encryptSession(SESSION, getSessionKeys({ SESSION_ENCRYPTION_KEY: OLD_KEY })!);
+
+    expect(() => decryptSession(stored, null)).toThrow(/SESSION_ENCRYPTION_KEY is not set/);
+    expect(() =>
+      decryptSession(stored, getSessionKeys({ SESSION_ENCRYPTION_KEY: NEW_KEY }))
+    ).toThrow(/no longer configured/);
+  });
+
+  it('only stores sessions in plaintext when explicitly allowed', () => {
+    const keys = getSessionKeys({ SESSION_ENCRYPTION_KEY: NEW_KEY })!;
+    expect(decryptSession(sealSession(SESSION, keys, {}), keys)).toBe(SESSION);
+
+    expect(() => sealSession(SESSION, null, {})).toThrow(/SESSION_ENCRYPTION_KEY is not set/);
+    expect(() => sealSession(SESSION, null, { ALLOW_PLAINTEXT_SESSIONS: '1' })).toThrow();
+    expect(sealSession(SESSION, null, { ALLOW_PLAINTEXT_SESSIONS: 'true' })).toBe(SESSION);
+  });
+
+  it('rejects keys of the wrong length', () => {
+    expect(getSessionKeys({})).toBeNull();
+    expect(() => getSessionKeys({ SESSION_ENCRYPTION_KEY: 'too-short' })).toThrow(/32 bytes/);
+  });
+});
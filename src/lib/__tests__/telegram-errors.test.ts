@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { BOT_UNRESPONSIVE_MESSAGE, classifyTelegramError } from '../telegram-errors';
+
+// Shaped like gramjs' RPCError / FloodWaitError
+function rpcError(errorMessage: string, code: number, seconds?: number) {
+  return Object.assign(new Error(`${code}: ${errorMessage}`), { errorMessage, code, seconds });
+}
+
+describe('classifyTelegramError', () => {
+  it('reads the wait time from a FLOOD_WAIT wrapped by the client', () => {
+    const flood = rpcError('FLOOD', 420, 120);
+    const wrapped = new Error(`Failed to get positions: ${flood.message}`, { cause: flood });
+
+    expect(classifyTelegramError(wrapped)).toEqual({
+      kind: 'flood_wait',
+      message: wrapped.message,
+      waitSeconds: 120,
+    });
+  });
+
+  it('falls back to a default wait when Telegram does not give one', () => {
+    const result = classifyTelegramError(rpcError('FLOOD_PREMIUM_WAIT', 420));
+    expect(result.kind).toBe('flood_wait');
+    expect(result.waitSeconds).toBeGreaterThan(0);
+  });
+
+  it('recognises an unresponsive bot', () => {
+    const timeout = new Error(BOT_UNRESPONSIVE_MESSAGE);
+    const wrapped = new Error(`Failed to get positions: ${timeout.message}`, { cause: timeout });
+    expect(classifyTelegramError(wrapped).kind).toBe('bot_unresponsive');
+  });
+
+  it('recognises network and session errors', () => {
+    expect(classifyTelegramError(new Error('read ECONNRESET')).kind).toBe('network');
+    expect(classifyTelegramError(new Error('Not connected')).kind).toBe('network');
+    expect(classifyTelegramError(rpcError('AUTH_KEY_UNREGISTERED', 401)).kind).toBe('auth');
+  });
+
+  it('leaves anything else as other', () => {
+    expect(classifyTelegramError(new Error('Cannot find entity')).kind).toBe('other');
+    expect(classifyTelegramError('boom')).toEqual({ kind: 'other', message: 'boom' });
+  });
+});
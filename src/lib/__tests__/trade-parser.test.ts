@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseTradeNotification } from '../trade-parser';
+import type { BotMessage } from '../types';
+
+function message(text: string, overrides: Partial<BotMessage> = {}): BotMessage {
+  return {
+    id: 501,
+    date: new Date('2025-01-15T12:00:00.000Z'),
+    text,
+    entities: [],
+    buttons: [],
+    ...overrides,
+  };
+}
+
+describe('parseTradeNotification', () => {
+  it('parses the labelled multi-line format', () => {
+    const trade = parseTradeNotification(
+      message(
+        [
+          '🟢 Bought YES',
+          '📊 Will Bitcoin reach $120k by March 31?',
+          '📦 Shares: 571.43',
+          '🎯 Price: $0.42',
+          '💸 Amount: $240.00',
+          '👤 Copied from: alpha_whale',
+        ].join('\n'),
+        {
+          buttons: [[{ text: 'View market', url: 'https://polymarket.com/event/bitcoin-120k' }]],
+        }
+      )
+    );
+
+    expect(trade).toEqual({
+      action: 'buy',
+      marketQuestion: 'Will Bitcoin reach $120k by March 31?',
+      side: 'Yes',
+      shares: 571.43,
+      price: 0.42,
+      amount: 240,
+      copiedFrom: 'alpha_whale',
+      marketUrl: 'https://polymarket.com/event/bitcoin-120k',
+      timestamp: '2025-01-15T12:00:00.000Z',
+      telegramMessageId: 501,
+    });
+  });
+
+  it('parses a one-line summary with the side in brackets', () => {
+    const trade = parseTradeNotification(
+      message(
+        '✅ Sold 1,200 shares of Will the Chiefs win the Super Bowl? (NO) at $0.65 for $780.00, copied from degen.eth'
+      )
+    );
+
+    expect(trade).toMatchObject({
+      action: 'sell',
+      marketQuestion: 'Will the Chiefs win the Super Bowl?',
+      side: 'No',
+      shares: 1200,
+      price: 0.65,
+      amount: 780,
+      copiedFrom: 'degen.eth',
+    });
+  });
+
+  it('reads prices quoted in cents and works out a missing amount', () => {
+    const trade = parseTradeNotification(
+      message('Bought 100 shares of Will it snow in Paris? at 42¢')
+    );
+
+    expect(trade).toMatchObject({ price: 0.42, amount: 42, side: 'Yes', copiedFrom: null });
+  });
+
+  it('ignores portfolio replies and other messages', () => {
+    expect(
+      parseTradeNotification(
+        message('💼 Manage your Positions(1)\n💰 Total Balance: $640.00\n1. Bought the dip?')
+      )
+    ).toBeNull();
+    expect(parseTradeNotification(message('Welcome! Use /positions to see your portfolio'))).toBeNull();
+    expect(parseTradeNotification(message('🟢 Bought YES\nShares: 10'))).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { LedgerPosition, LedgerSnapshot } from '../ledger';
+import { buildTraderStats } from '../traders';
+import { position as basePosition } from './fixtures/positions';
+
+// Positions here are copied from alice unless the test says otherwise
+function position(overrides: Partial<LedgerPosition> = {}): LedgerPosition {
+  return basePosition({ copiedFrom: 'alice', ...overrides });
+}
+
+function snapshot(id: number, day: number, positions: LedgerPosition[]): LedgerSnapshot {
+  return { id, timestamp: `2025-01-0${day}T00:00:00.000Z`, accountId: 1, positions };
+}
+
+describe('buildTraderStats', () => {
+  it('combines open and closed positions per trader', () => {
+    const stats = buildTraderStats([
+      snapshot(1, 1, [
+        position(),
+        position({ marketId: 2, marketQuestion: 'Other?', value: 30, pnlUsd: -20 }),
+        position({ marketId: 3, marketQuestion: 'Manual?', copiedFrom: null }),
+      ]),
+      snapshot(2, 2, [position({ value: 70, pnlUsd: 20 })]),
+    ]);
+
+    expect(stats).toEqual([
+      {
+        trader: 'alice',
+        openPositions: 1,
+        exposure: 50,
+        unrealisedPnl: 20,
+        realisedPnl: -20,
+        closedPositions: 1,
+        winRate: 0,
+        avgReturnPct: -40,
+        // Down 10 from the starting point of zero PnL on the first snapshot
+        maxDrawdown: 10,
+      },
+    ]);
+  });
+
+  it('measures drawdown from the peak of total PnL', () => {
+    const stats = buildTraderStats([
+      snapshot(1, 1, [position({ pnlUsd: 10 })]),
+      snapshot(2, 2, [position({ pnlUsd: 30 })]),
+      snapshot(3, 3, [position({ pnlUsd: -5 })]),
+      snapshot(4, 4, [position({ pnlUsd: 15 })]),
+    ]);
+
+    expect(stats[0].maxDrawdown).toBe(35);
+    expect(stats[0].winRate).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import type { NextRequest } from 'next/server';
+import {
+  countUsers,
+  createApiToken,
+  createUser,
+  createUserSession,
+  deleteUserSession,
+  findActiveApiToken,
+  getUserByUsername,
+  getUserSessionUser,
+} from './db';
+import {
+  API_TOKEN_PREFIX,
+  MIN_PASSWORD_LENGTH,
+  generateToken,
+  hashPassword,
+  hashToken,
+  verifyPassword,
+} from './credentials';
+import type { ApiTokenInfo, DashboardUser } from './types';
+
+// Dashboard access control. Browsers sign in with a local user and get a
+// session cookie; scripts use read-only API tokens. Both are checked by
+// src/proxy.ts before any page or API route runs.
+export const SESSION_COOKIE = 'tg_dash_session';
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Verified against when the username doesn't exist, so a wrong username
+// takes as long as a wrong password
+const DUMMY_PASSWORD_HASH = hashPassword('not-a-real-password');
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+
+// Check a new user's credentials; returns the problem, or null if they're fine
+export function validateNewUser(username: string, password: string): string | null {
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Username must be 3-32 letters, digits, dots, dashes or underscores';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export async function createDashboardUser(
+  username: string,
+  password: string
+): Promise<DashboardUser> {
+  const problem = validateNewUser(username, password);
+  if (problem) {
+    throw new Error(problem);
+  }
+  if (await getUserByUsername(username)) {
+    throw new Error(`User ${username} already exists`);
+  }
+  return createUser(username, hashPassword(password));
+}
+
+// Create the first user from DASHBOARD_USERNAME / DASHBOARD_PASSWORD when
+// nobody can log in yet. The password is only read on creation.
+export async function ensureInitialUser(): Promise<DashboardUser | null> {
+  const username = process.env.DASHBOARD_USERNAME;
+  const password = process.env.DASHBOARD_PASSWORD;
+  if ((await countUsers()) > 0 || !username || !password) {
+    return null;
+  }
+  return createDashboardUser(username, password);
+}
+
+// Returns the new session's cookie value, or null for wrong credentials
+export async function signIn(
+  username: string,
+  password: string
+): Promise<{ token: string; expiresAt: Date } | null> {
+  const user = await getUserByUsername(username);
+  const valid = verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !valid) {
+    return null;
+  }
+
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await createUserSession(hashToken(token), user.id, expiresAt);
+  return { token, expiresAt };
+}
+
+export async function getSignedInUser(token: string): Promise<DashboardUser | null> {
+  return getUserSessionUser(hashToken(token));
+}
+
+export async function signOut(token: string): Promise<void> {
+  await deleteUserSession(hashToken(token));
+}
+
+// The token is returned only here; just its hash is stored
+export async function issueApiToken(
+  name: string
+): Promise<{ token: string; apiToken: ApiTokenInfo }> {
+  const token = generateToken(API_TOKEN_PREFIX);
+  const apiToken = await createApiToken(name, hashToken(token));
+  return { token, apiToken };
+}
+
+export async function verifyApiToken(token: string): Promise<ApiTokenInfo | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+  return findActiveApiToken(hashToken(token));
+}
+
+// The user signed in on a request, for routes that act on their behalf
+export async function getRequestUser(request: NextRequest): Promise<DashboardUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSignedInUser(token) : null;
+}
@@ -0,0 +1,54 @@
+import { getBotAdapter, getConfiguredBots, type ConfiguredBot } from './bot-adapters';
+import { assignUntaggedRecords, ensureAccountForBot, getAccount, getAccounts } from './db';
+import type { Account } from './types';
+
+// An account together with the bot and adapter used to refresh it
+export interface AccountBot extends ConfiguredBot {
+  account: Account;
+}
+
+export function toAccountBot(account: Account): AccountBot {
+  return {
+    account,
+    username: account.botUsername,
+    adapter: getBotAdapter(account.adapter),
+  };
+}
+
+// Make sure every bot from TARGET_BOTS / TARGET_BOT_USERNAME has an account,
+// and attach data saved before accounts existed to the first one
+export async function syncAccountsFromEnv(): Promise<Account[]> {
+  for (const bot of getConfiguredBots()) {
+    await ensureAccountForBot(bot.username, bot.adapter.id);
+  }
+
+  const accounts = await getAccounts();
+  if (accounts.length > 0) {
+    const tagged = await assignUntaggedRecords(accounts[0].id);
+    if (tagged > 0) {
+      console.log(`[ACCOUNTS] Assigned ${tagged} existing snapshots to ${accounts[0].name}`);
+    }
+  }
+
+  return accounts;
+}
+
+// Enabled accounts to refresh, or just the requested one
+export async function getAccountBots(accountId?: number): Promise<AccountBot[]> {
+  if (accountId !== undefined) {
+    const account = await getAccount(accountId);
+    return account ? [toAccountBot(account)] : [];
+  }
+
+  const accounts = await getAccounts();
+  return accounts.filter((account) => account.enabled).map(toAccountBot);
+}
+
+// `?account=<id>` query parameter; missing or "all" means every account
+export function parseAccountId(value: string | null | undefined): number | undefined {
+  if (!value || value === 'all') {
+    return undefined;
+  }
+  const id = parseInt(value, 10);
+  return Number.isNaN(id) ? undefined : id;
+}
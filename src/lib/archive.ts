@@ -0,0 +1,112 @@
+import { isParseAcceptable } from './parser';
+import { DEFAULT_ADAPTER_ID, getBotAdapter } from './bot-adapters';
+import {
+  attachRejectedMessages,
+  getAccounts,
+  getArchivedSnapshots,
+  getRejectedMessageGroups,
+  replaceSnapshotContents,
+  savePortfolio,
+} from './db';
+import { rebuildSnapshotEvents } from './events';
+import type { BotMessage, RawMessage } from './types';
+
+export interface ReparseResult {
+  snapshots: number;
+  // Snapshots made from responses that were rejected when they arrived
+  recovered: number;
+  positions: number;
+  rejected: number;
+  failed: number;
+}
+
+export function fromRawMessage(row: RawMessage): BotMessage {
+  return {
+    id: row.telegramMessageId,
+    date: new Date(row.date),
+    text: row.text,
+    entities: JSON.parse(row.entities),
+    buttons: JSON.parse(row.buttons),
+  };
+}
+
+// Re-run the parser over every archived bot message and rebuild the snapshots
+// they produced. Snapshot ids and timestamps are kept, so charts and events
+// stay linked; events are recomputed from the new positions.
+// Responses rejected on arrival are tried again and saved as new snapshots
+// if they now parse.
+export async function reparseArchive(): Promise<ReparseResult> {
+  const snapshots = await getArchivedSnapshots();
+  const result: ReparseResult = {
+    snapshots: 0,
+    recovered: 0,
+    positions: 0,
+    rejected: 0,
+    failed: 0,
+  };
+
+  for (const archived of snapshots) {
+    try {
+      const pages = archived.rawMessages.map(fromRawMessage);
+      const adapter = getBotAdapter(archived.account?.adapter ?? DEFAULT_ADAPTER_ID);
+      const parsed = adapter.parse(pages, new Date(archived.timestamp));
+
+      // Keep the existing contents rather than replace them with a worse parse
+      if (!isParseAcceptable(parsed)) {
+        console.warn(`[ARCHIVE] Re-parse of snapshot ${archived.id} rejected, confidence:`, parsed.confidence);
+        result.rejected++;
+        continue;
+      }
+
+      await replaceSnapshotContents(archived.id, parsed);
+      result.snapshots++;
+      result.positions += parsed.positions.length;
+    } catch (error) {
+      console.error(`[ARCHIVE] Failed to re-parse snapshot ${archived.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  await recoverRejectedResponses(result);
+
+  if (result.snapshots > 0 || result.recovered > 0) {
+    await rebuildSnapshotEvents();
+  }
+
+  console.log(
+    `[ARCHIVE] Re-parsed ${result.snapshots} snapshots and recovered ${result.recovered} (${result.positions} positions), ${result.rejected} rejected, ${result.failed} failed`
+  );
+
+  return result;
+}
+
+// Make snapshots of rejected responses the parser now accepts, timed by when
+// the bot sent them
+async function recoverRejectedResponses(result: ReparseResult): Promise<void> {
+  const accounts = new Map((await getAccounts()).map((account) => [account.id, account]));
+
+  for (const rows of await getRejectedMessageGroups()) {
+    const [first] = rows;
+    const account = accounts.get(first.accountId!);
+    if (!account) {
+      continue;
+    }
+
+    try {
+      const pages = rows.map(fromRawMessage);
+      const parsed = getBotAdapter(account.adapter).parse(pages, pages[0].date);
+      if (!isParseAcceptable(parsed)) {
+        result.rejected++;
+        continue;
+      }
+
+      const snapshotId = await savePortfolio(account.id, parsed);
+      await attachRejectedMessages(first.rejectedGroup!, snapshotId);
+      result.recovered++;
+      result.positions += parsed.positions.length;
+    } catch (error) {
+      console.error(`[ARCHIVE] Failed to re-parse rejected message ${first.telegramMessageId}:`, error);
+      result.failed++;
+    }
+  }
+}
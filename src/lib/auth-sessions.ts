@@ -1,52 +1,59 @@
-import { TelegramClient } from 'telegram';
+import { Api, TelegramClient } from 'telegram';
+import { computeCheck } from 'telegram/Password';
 import { StringSession } from 'telegram/sessions';
-
-interface AuthSession {
-  client: TelegramClient;
-  phoneNumber?: string;
-  step: 'phone' | 'code' | 'password' | 'complete';
-  handlers: {
-    phoneNumber?: () => Promise<string>;
-    phoneCode?: () => Promise<string>;
-    password?: () => Promise<string>;
-  };
-  resolvers: {
-    phoneNumber?: (value: string) => void;
-    phoneCode?: (value: string) => void;
-    password?: (value: string) => void;
-  };
-  startPromise?: Promise<void>;
-  authError?: Error;
-  createdAt: number;
-}
+import {
+  deleteExpiredPendingAuths,
+  deletePendingAuth,
+  getPendingAuth,
+  savePendingAuth,
+} from './db';
+import { classifyTelegramError } from './telegram-errors';
+import type { AuthStep, PendingAuth } from './types';
+
+// Logins in progress are stored in the database (PendingAuth) with the
+// login's temporary session, so a hot reload or another server process can
+// finish them. Each process keeps the clients it has connected, and rebuilds
+// one from the stored session for a login it hasn't seen yet.
 
 // Session timeout: 10 minutes
 const AUTH_SESSION_TIMEOUT_MS = 10 * 60 * 1000;
 
-const authSessions = new Map<string, AuthSession>();
+interface AuthClient {
+  client: TelegramClient;
+  // Set when Telegram reports that the QR login token was scanned
+  qrScanned: boolean;
+}
+
+const authClients = new Map<string, AuthClient>();
 
 // Cleanup stale auth sessions
-function cleanupStaleSessions(): void {
-  const now = Date.now();
-  for (const [sessionId, session] of authSessions.entries()) {
-    if (now - session.createdAt > AUTH_SESSION_TIMEOUT_MS) {
-      console.log(`[AUTH] Cleaning up stale session: ${sessionId}`);
-      session.client.disconnect().catch(() => {});
-      authSessions.delete(sessionId);
+async function cleanupStaleSessions(): Promise<void> {
+  const removed = await deleteExpiredPendingAuths();
+  if (removed > 0) {
+    console.log(`[AUTH] Cleaned up ${removed} stale session(s)`);
+  }
+
+  for (const [sessionId, { client }] of authClients.entries()) {
+    if (!(await getPendingAuth(sessionId))) {
+      client.disconnect().catch(() => {});
+      authClients.delete(sessionId);
     }
   }
 }
 
 // Run cleanup every 2 minutes
 if (typeof setInterval !== 'undefined') {
-  setInterval(cleanupStaleSessions, 2 * 60 * 1000);
+  setInterval(() => {
+    cleanupStaleSessions().catch((error) => {
+      console.error('[AUTH] Failed to clean up stale sessions:', error);
+    });
+  }, 2 * 60 * 1000);
 }
 
-export function createAuthSession(
-  sessionId: string,
-  apiId: number,
-  apiHash: string
-): void {
+function getApiCredentials(): { apiId: number; apiHash: string } {
+  const apiId = parseInt(process.env.TELEGRAM_API_ID || '0', 10);
+  const apiHash = process.env.TELEGRAM_API_HASH || '';
+
   if (!apiId || apiId === 0) {
     throw new Error(
       'TELEGRAM_API_ID is missing or invalid. Please add it to your .env file. Get it from https://my.telegram.org/apps'
@@ -59,48 +66,88 @@ export function createAuthSession(
     );
   }
 
-  console.log(
-    '[AUTH] Creating TelegramClient with API_ID:',
-    apiId,
-    'API_HASH:',
-    apiHash.substring(0, 4) + '...'
+  return { apiId, apiHash };
+}
+
+// Telegram's error code (e.g. PHONE_CODE_INVALID), or the error's message
+function errorText(error: unknown): string {
+  return (
+    (error as { errorMessage?: string } | undefined)?.errorMessage ||
+    (error instanceof Error ? error.message : String(error))
   );
+}
 
-  const session = new StringSession('');
-  const client = new TelegramClient(session, apiId, apiHash, {
+function saveSessionString(client: TelegramClient): string {
+  return (client.session as StringSession).save();
+}
+
+// The connected client for a login, connecting one from its stored session
+// if this process doesn't have it
+async function getAuthClient(auth: PendingAuth): Promise<AuthClient> {
+  const cached = authClients.get(auth.id);
+  if (cached?.client.connected) {
+    return cached;
+  }
+
+  const { apiId, apiHash } = getApiCredentials();
+  const client = new TelegramClient(new StringSession(auth.session), apiId, apiHash, {
     connectionRetries: 5,
     requestRetries: 5,
     floodSleepThreshold: 60,
     retryDelay: 2000,
   });
+  const authClient: AuthClient = { client, qrScanned: false };
+  client.addEventHandler((update) => {
+    if (update instanceof Api.UpdateLoginToken) {
+      authClient.qrScanned = true;
+    }
+  });
 
-  const handlers: AuthSession['handlers'] = {};
-  const resolvers: AuthSession['resolvers'] = {};
+  await client.connect();
+  authClients.set(auth.id, authClient);
+  return authClient;
+}
 
-  handlers.phoneNumber = () => {
-    return new Promise((resolve) => {
-      resolvers.phoneNumber = resolve;
-    });
-  };
+// Store the login's progress along with its session, which changes when
+// Telegram moves the login to another data centre
+async function saveProgress(
+  auth: PendingAuth,
+  client: TelegramClient,
+  changes: Partial<PendingAuth> & { step: AuthStep }
+): Promise<void> {
+  Object.assign(auth, changes, { session: saveSessionString(client) });
+  await savePendingAuth(auth);
+}
 
-  handlers.phoneCode = () => {
-    return new Promise((resolve) => {
-      resolvers.phoneCode = resolve;
-    });
-  };
+// Finish a login, returning the new session string
+async function completeAuth(auth: PendingAuth, client: TelegramClient): Promise<string> {
+  const sessionString = saveSessionString(client);
+  await client.disconnect();
+  authClients.delete(auth.id);
+  await deletePendingAuth(auth.id);
+  return sessionString;
+}
 
-  handlers.password = async () => {
-    return new Promise((resolve) => {
-      resolvers.password = resolve;
-    });
-  };
+export async function createAuthSession(sessionId: string): Promise<void> {
+  const { apiId, apiHash } = getApiCredentials();
+  console.log(
+    '[AUTH] Creating auth session with API_ID:',
+    apiId,
+    'API_HASH:',
+    apiHash.substring(0, 4) + '...'
+  );
 
-  authSessions.set(sessionId, {
-    client,
+  const now = Date.now();
+  await savePendingAuth({
+    id: sessionId,
     step: 'phone',
-    handlers,
-    resolvers,
-    createdAt: Date.now(),
+    session: '',
+    phoneNumber: null,
+    phoneCodeHash: null,
+    qrUrl: null,
+    qrExpiresAt: null,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + AUTH_SESSION_TIMEOUT_MS).toISOString(),
   });
 }
 
@@ -108,8 +155,8 @@ export async function submitPhoneNumber(
   sessionId: string,
   phoneNumber: string
 ): Promise<{ success: boolean; error?: string; nextStep?: string }> {
-  const authSession = authSessions.get(sessionId);
-  if (!authSession) {
+  const auth = await getPendingAuth(sessionId);
+  if (!auth) {
     return {
       success: false,
       error: 'Session not found. Please refresh the page and try again.',
@@ -117,101 +164,31 @@ export async function submitPhoneNumber(
   }
 
   try {
-    authSession.phoneNumber = phoneNumber;
-
-    console.log('[AUTH] Connecting to Telegram...');
-    await authSession.client.connect();
-    console.log('[AUTH] Client connected, starting authentication for:', phoneNumber);
-
-    authSession.handlers.phoneNumber = async () => {
-      console.log(
-        '[AUTH] Phone number handler called by client.start(), returning:',
-        phoneNumber
-      );
-      return phoneNumber;
-    };
-
-    authSession.handlers.phoneCode = async () => {
-      console.log('[AUTH] Phone code handler called - code was sent!');
-      return new Promise((resolve) => {
-        authSession.resolvers.phoneCode = resolve;
-      });
-    };
-
-    authSession.handlers.password = async () => {
-      console.log('Password handler called - waiting for password...');
-      return new Promise((resolve) => {
-        authSession.resolvers.password = resolve;
-      });
-    };
-
-    let startError: Error | null = null;
-
-    authSession.startPromise = authSession.client
-      .start({
-        phoneNumber: authSession.handlers.phoneNumber!,
-        phoneCode: authSession.handlers.phoneCode!,
-        password: authSession.handlers.password,
-        onError: (err: Error) => {
-          console.error('Auth error in client.start():', err);
-          authSession.authError = err;
-          startError = err;
-        },
-      })
-      .catch((err) => {
-        console.error('Auth start failed:', err);
-        authSession.authError = err;
-        startError = err;
-        throw err;
-      });
-
-    console.log('[AUTH] Starting authentication flow...');
-
-    for (let i = 0; i < 30; i++) {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      if (authSession.authError || startError) {
-        const error = authSession.authError || startError;
-        console.error('[AUTH] Error detected:', error);
-
-        const errorMessage =
-          (error as { errorMessage?: string }).errorMessage || error?.message || '';
-        const errorCode = (error as { code?: number }).code;
-
-        if (
-          errorMessage === 'FLOOD' ||
-          errorCode === 420 ||
-          errorMessage.includes('FLOOD')
-        ) {
-          const waitSeconds = (error as { seconds?: number }).seconds || 300;
-          const waitMinutes = Math.ceil(waitSeconds / 60);
-          return {
-            success: false,
-            error: `Too many code requests. Please wait ${waitMinutes} minutes before trying again.`,
-          };
-        }
-
-        return {
-          success: false,
-          error: errorMessage || 'Failed to send code. Please check your phone number.',
-        };
-      }
-
-      if (i >= 3) {
-        console.log('[AUTH] Code should have been sent by now');
-        break;
-      }
-    }
-
-    console.log('[AUTH] Code should be sent. Check your Telegram app.');
+    console.log('[AUTH] Sending code to:', phoneNumber);
+    const { client } = await getAuthClient(auth);
+    const { phoneCodeHash } = await client.sendCode(
+      { apiId: client.apiId, apiHash: client.apiHash },
+      phoneNumber
+    );
 
-    authSession.step = 'code';
+    await saveProgress(auth, client, { step: 'code', phoneNumber, phoneCodeHash });
+    console.log('[AUTH] Code sent. Check your Telegram app.');
     return { success: true, nextStep: 'code' };
   } catch (error) {
-    console.error('Error in submitPhoneNumber:', error);
+    console.error('[AUTH] Error sending code:', error);
+
+    const classified = classifyTelegramError(error);
+    if (classified.kind === 'flood_wait') {
+      const waitMinutes = Math.ceil((classified.waitSeconds ?? 300) / 60);
+      return {
+        success: false,
+        error: `Too many code requests. Please wait ${waitMinutes} minutes before trying again.`,
+      };
+    }
+
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to send code',
+      error: errorText(error) || 'Failed to send code. Please check your phone number.',
     };
   }
 }
@@ -226,120 +203,52 @@ export async function submitCode(
   needsPassword?: boolean;
   sessionString?: string;
 }> {
-  const authSession = authSessions.get(sessionId);
-  if (!authSession) {
+  const auth = await getPendingAuth(sessionId);
+  if (!auth || auth.step !== 'code' || !auth.phoneNumber || !auth.phoneCodeHash) {
     return { success: false, error: 'Session not found' };
   }
 
+  let client: TelegramClient | undefined;
   try {
-    console.log('Submitting code:', code);
+    client = (await getAuthClient(auth)).client;
+    const result = await client.invoke(
+      new Api.auth.SignIn({
+        phoneNumber: auth.phoneNumber,
+        phoneCodeHash: auth.phoneCodeHash,
+        phoneCode: code,
+      })
+    );
 
-    if (authSession.resolvers.phoneCode) {
-      console.log('Resolving phoneCode promise with code');
-      authSession.resolvers.phoneCode(code);
-    } else {
-      authSession.handlers.phoneCode = async () => code;
+    if (result instanceof Api.auth.AuthorizationSignUpRequired) {
+      await cleanupAuthSession(sessionId);
+      return {
+        success: false,
+        error: 'There is no Telegram account for this phone number. Sign up in a Telegram app first.',
+      };
     }
 
-    let authComplete = false;
-    let needsPassword = false;
-    let authError: Error | null = null;
-
-    const checkAuth = async () => {
-      for (let i = 0; i < 20; i++) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        try {
-          if (await authSession.client.checkAuthorization()) {
-            authComplete = true;
-            return;
-          }
-        } catch {
-          // Might need password
-        }
-
-        try {
-          await Promise.race([
-            authSession.startPromise!,
-            new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 100)),
-          ]);
-          break;
-        } catch (err) {
-          const errMsg =
-            (err as { errorMessage?: string }).errorMessage ||
-            (err as Error).message ||
-            String(err);
-          if (errMsg.includes('PASSWORD') || errMsg.includes('password')) {
-            needsPassword = true;
-            return;
-          }
-          if (!errMsg.includes('timeout')) {
-            authError = err as Error;
-            return;
-          }
-        }
-      }
-    };
-
-    await checkAuth();
-
-    if (authComplete) {
-      const sessionString = (authSession.client.session as StringSession).save() as string;
-      authSession.step = 'complete';
-      await authSession.client.disconnect();
-      authSessions.delete(sessionId);
-      console.log('Authentication successful!');
-      return { success: true, nextStep: 'complete', sessionString };
-    }
+    const sessionString = await completeAuth(auth, client);
+    console.log('[AUTH] Authentication successful!');
+    return { success: true, nextStep: 'complete', sessionString };
+  } catch (error) {
+    const errorMsg = errorText(error);
 
-    if (
-      needsPassword ||
-      (authError && (authError as { errorMessage?: string }).errorMessage?.includes('PASSWORD'))
-    ) {
-      authSession.step = 'password';
-      console.log('Password required');
+    if (errorMsg === 'SESSION_PASSWORD_NEEDED' && client) {
+      await saveProgress(auth, client, { step: 'password' });
+      console.log('[AUTH] Password required');
       return { success: true, nextStep: 'password', needsPassword: true };
     }
 
-    if (authError) {
-      const errorMsg =
-        (authError as { errorMessage?: string }).errorMessage ||
-        (authError as Error).message ||
-        String(authError);
-      if (
-        errorMsg.includes('PHONE_CODE') ||
-        errorMsg.includes('code') ||
-        errorMsg.includes('CODE')
-      ) {
-        return { success: false, error: 'Invalid verification code. Please try again.' };
-      }
-      return { success: false, error: errorMsg || 'Authentication failed' };
-    }
+    console.error('[AUTH] Error submitting code:', error);
 
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    if (await authSession.client.checkAuthorization()) {
-      const sessionString = (authSession.client.session as StringSession).save() as string;
-      authSession.step = 'complete';
-      await authSession.client.disconnect();
-      authSessions.delete(sessionId);
-      return { success: true, nextStep: 'complete', sessionString };
+    if (errorMsg === 'PHONE_CODE_EXPIRED') {
+      await cleanupAuthSession(sessionId);
+      return { success: false, error: 'The code has expired. Please start over.' };
     }
-
-    authSession.step = 'password';
-    return { success: true, nextStep: 'password', needsPassword: true };
-  } catch (error) {
-    console.error('Error in submitCode:', error);
-    const errorMsg =
-      (error as { errorMessage?: string }).errorMessage ||
-      (error as Error).message ||
-      'Invalid code';
-
-    if (errorMsg.includes('PASSWORD') || errorMsg.includes('password')) {
-      authSession.step = 'password';
-      return { success: true, nextStep: 'password', needsPassword: true };
+    if (errorMsg.startsWith('PHONE_CODE')) {
+      return { success: false, error: 'Invalid verification code. Please try again.' };
     }
-
-    return { success: false, error: errorMsg };
+    return { success: false, error: errorMsg || 'Authentication failed' };
   }
 }
 
@@ -347,99 +256,158 @@ export async function submitPassword(
   sessionId: string,
   password: string
 ): Promise<{ success: boolean; error?: string; sessionString?: string }> {
-  const authSession = authSessions.get(sessionId);
-  if (!authSession) {
+  const auth = await getPendingAuth(sessionId);
+  if (!auth || auth.step !== 'password') {
     return { success: false, error: 'Session not found' };
   }
 
   try {
     console.log('[AUTH] Submitting password (length:', password.length, ')...');
+    const { client } = await getAuthClient(auth);
+
+    const passwordInfo = await client.invoke(new Api.account.GetPassword());
+    await client.invoke(
+      new Api.auth.CheckPassword({ password: await computeCheck(passwordInfo, password) })
+    );
+
+    const sessionString = await completeAuth(auth, client);
+    console.log('[AUTH] Authentication successful!');
+    return { success: true, sessionString };
+  } catch (error) {
+    console.error('[AUTH] Error submitting password:', error);
+    const errorMsg = errorText(error);
+
+    if (errorMsg === 'PASSWORD_HASH_INVALID') {
+      return { success: false, error: 'Invalid 2FA password. Please check and try again.' };
+    }
+    return { success: false, error: errorMsg || 'Invalid password' };
+  }
+}
+
+// The URL a QR login token is shown as; scanning it in a logged-in Telegram
+// app approves the login
+function qrLoginUrl(token: Buffer): string {
+  return `tg://login?token=${token.toString('base64url')}`;
+}
+
+interface QrLoginStatus {
+  success: boolean;
+  error?: string;
+  nextStep?: string;
+  qrUrl?: string;
+  expiresAt?: string;
+  sessionString?: string;
+}
+
+// Ask Telegram where a QR login stands: a fresh token while it hasn't been
+// scanned, the password step for 2FA accounts, or the logged-in session
+async function exportQrToken(auth: PendingAuth, authClient: AuthClient): Promise<QrLoginStatus> {
+  const { client } = authClient;
+  authClient.qrScanned = false;
 
-    if (authSession.resolvers.password) {
-      console.log('[AUTH] Resolving password promise');
-      authSession.resolvers.password(password);
-    } else {
-      console.log('[AUTH] WARNING: No password resolver found');
-      authSession.handlers.password = async () => password;
-      authSession.resolvers.password = () => {};
+  try {
+    let result = await client.invoke(
+      new Api.auth.ExportLoginToken({
+        apiId: client.apiId,
+        apiHash: client.apiHash,
+        exceptIds: [],
+      })
+    );
+
+    // The account lives in another data centre; finish the login there
+    if (result instanceof Api.auth.LoginTokenMigrateTo) {
+      await client._switchDC(result.dcId);
+      result = await client.invoke(new Api.auth.ImportLoginToken({ token: result.token }));
     }
 
-    try {
-      console.log('Waiting for client.start() to complete (max 20s)...');
-      await Promise.race([
-        authSession.startPromise!,
-        new Promise((_, reject) => setTimeout(() => reject(new Error('Timeout')), 20000)),
-      ]);
-      console.log('client.start() completed successfully');
-    } catch (error) {
-      console.error('Start promise error:', error);
-      const errorMsg =
-        (error as { errorMessage?: string }).errorMessage ||
-        (error as Error).message ||
-        String(error);
-
-      if (
-        errorMsg.includes('PASSWORD') ||
-        errorMsg.includes('password') ||
-        (error as { errorMessage?: string }).errorMessage === 'PASSWORD_HASH_INVALID'
-      ) {
-        return { success: false, error: 'Invalid 2FA password. Please check and try again.' };
-      }
-
-      if (!errorMsg.includes('Timeout') && !errorMsg.includes('timeout')) {
-        console.log('Non-timeout error, but continuing to check auth...');
-      }
+    if (result instanceof Api.auth.LoginToken) {
+      const qrUrl = qrLoginUrl(result.token);
+      const expiresAt = new Date(result.expires * 1000).toISOString();
+      await saveProgress(auth, client, { step: 'qr', qrUrl, qrExpiresAt: expiresAt });
+      return { success: true, nextStep: 'qr', qrUrl, expiresAt };
     }
 
-    console.log('Checking authorization...');
-    for (let i = 0; i < 15; i++) {
-      try {
-        const isAuthorized = await authSession.client.checkAuthorization();
-        if (isAuthorized) {
-          const sessionString = (authSession.client.session as StringSession).save() as string;
-          authSession.step = 'complete';
-          await authSession.client.disconnect();
-          authSessions.delete(sessionId);
-          console.log('Authentication successful!');
-          return { success: true, sessionString };
-        }
-      } catch {
-        // Not authorized yet
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    if (result instanceof Api.auth.LoginTokenSuccess) {
+      const sessionString = await completeAuth(auth, client);
+      console.log('[AUTH] QR login successful!');
+      return { success: true, nextStep: 'complete', sessionString };
     }
 
-    if (await authSession.client.checkAuthorization()) {
-      const sessionString = (authSession.client.session as StringSession).save() as string;
-      authSession.step = 'complete';
-      await authSession.client.disconnect();
-      authSessions.delete(sessionId);
-      return { success: true, sessionString };
+    throw new Error(`Unexpected QR login result: ${result.className}`);
+  } catch (error) {
+    if (errorText(error) === 'SESSION_PASSWORD_NEEDED') {
+      console.log('[AUTH] QR code scanned, 2FA password required');
+      await saveProgress(auth, client, { step: 'password', qrUrl: null, qrExpiresAt: null });
+      return { success: true, nextStep: 'password' };
     }
+    throw error;
+  }
+}
 
+// Log in by QR code instead of phone number. Telegram's tokens expire after
+// about 30 seconds, so the code is replaced as the auth page polls for it;
+// 2FA accounts then go on to the password step like a phone login.
+export async function startQrLogin(
+  sessionId: string
+): Promise<{ success: boolean; error?: string; nextStep?: string }> {
+  const auth = await getPendingAuth(sessionId);
+  if (!auth || auth.step !== 'phone') {
     return {
       success: false,
-      error: 'Authentication failed. Please verify your 2FA password is correct.',
+      error: 'Session not found. Please refresh the page and try again.',
     };
+  }
+
+  try {
+    console.log('[AUTH] Starting QR login...');
+    const { success, nextStep } = await exportQrToken(auth, await getAuthClient(auth));
+    return { success, nextStep };
+  } catch (error) {
+    console.error('[AUTH] Error starting QR login:', error);
+    await cleanupAuthSession(sessionId);
+    return { success: false, error: errorText(error) || 'Failed to start QR login' };
+  }
+}
+
+// Where a QR login has got to: still waiting with the current token, waiting
+// for the 2FA password, or complete with the new session
+export async function getQrLoginStatus(sessionId: string): Promise<QrLoginStatus> {
+  const auth = await getPendingAuth(sessionId);
+  if (!auth || (auth.step !== 'qr' && auth.step !== 'password')) {
+    return { success: false, error: 'Session not found' };
+  }
+
+  if (auth.step === 'password') {
+    return { success: true, nextStep: 'password' };
+  }
+
+  try {
+    // A process that wasn't connected when the token was issued can't have
+    // seen it scanned, so it checks with Telegram
+    const watching = !!authClients.get(sessionId)?.client.connected;
+    const authClient = await getAuthClient(auth);
+    const expired = !auth.qrExpiresAt || auth.qrExpiresAt <= new Date().toISOString();
+
+    if (watching && !authClient.qrScanned && !expired && auth.qrUrl && auth.qrExpiresAt) {
+      return { success: true, nextStep: 'qr', qrUrl: auth.qrUrl, expiresAt: auth.qrExpiresAt };
+    }
+    return await exportQrToken(auth, authClient);
   } catch (error) {
-    console.error('Error in submitPassword:', error);
-    const errorMsg =
-      (error as { errorMessage?: string }).errorMessage ||
-      (error as Error).message ||
-      'Invalid password';
-    return { success: false, error: errorMsg };
+    console.error('[AUTH] Error checking QR login:', error);
+    await cleanupAuthSession(sessionId);
+    return { success: false, error: errorText(error) || 'QR login failed' };
   }
 }
 
-export function getAuthSession(sessionId: string): AuthSession | undefined {
-  return authSessions.get(sessionId);
+export async function getAuthSession(sessionId: string): Promise<PendingAuth | null> {
+  return getPendingAuth(sessionId);
 }
 
-export function cleanupAuthSession(sessionId: string): void {
-  const authSession = authSessions.get(sessionId);
-  if (authSession) {
-    authSession.client.disconnect().catch(() => {});
-    authSessions.delete(sessionId);
+export async function cleanupAuthSession(sessionId: string): Promise<void> {
+  const authClient = authClients.get(sessionId);
+  if (authClient) {
+    authClient.client.disconnect().catch(() => {});
+    authClients.delete(sessionId);
   }
+  await deletePendingAuth(sessionId);
 }
@@ -0,0 +1,83 @@
+import { parsePortfolioPages } from './parser';
+import { parseTradeNotification } from './trade-parser';
+import type { BotMessage, ParsedPortfolio, ParsedTrade } from './types';
+
+// Everything that depends on a particular bot's /positions wording. Add an
+// adapter here to support another copy-trading bot.
+export interface BotAdapter {
+  id: string;
+  name: string;
+  // Command sent to the bot to request the portfolio
+  positionsCommand: string;
+  // Whether a message from the bot is a portfolio (used for history backfill)
+  isPortfolioMessage(message: BotMessage): boolean;
+  // Whether a reply is a placeholder the bot will replace ("Loading...")
+  isPendingMessage(message: BotMessage): boolean;
+  // Whether an inline button moves to the next page of positions
+  isNextPageButton(text: string): boolean;
+  parse(pages: BotMessage[], timestamp?: Date): ParsedPortfolio;
+  // A buy/sell notification, or null for any other message
+  parseTrade(message: BotMessage): ParsedTrade | null;
+}
+
+// A bot we talk to, paired with the adapter that understands it
+export interface ConfiguredBot {
+  username: string;
+  adapter: BotAdapter;
+}
+
+// The original /positions format ("Manage your Positions(N)", "Total Balance: ...")
+const defaultAdapter: BotAdapter = {
+  id: 'default',
+  name: 'Polymarket copy-trading bot',
+  positionsCommand: '/positions',
+  isPortfolioMessage: (message) =>
+    message.text.includes('Total Balance') || message.text.includes('Positions('),
+  isPendingMessage: (message) =>
+    message.text.includes('Loading') || message.text.includes('loading') || message.text.length < 50,
+  isNextPageButton: (text) => {
+    const lowerText = text.toLowerCase();
+    return lowerText.includes('next') || text.includes('→') || text.includes('▶') || text.includes('»');
+  },
+  parse: (pages, timestamp) => parsePortfolioPages(pages, timestamp),
+  parseTrade: (message) => parseTradeNotification(message),
+};
+
+const adapters = new Map<string, BotAdapter>([[defaultAdapter.id, defaultAdapter]]);
+
+export const DEFAULT_ADAPTER_ID = defaultAdapter.id;
+
+export function getBotAdapter(id: string): BotAdapter {
+  const adapter = adapters.get(id);
+  if (!adapter) {
+    throw new Error(
+      `Unknown bot adapter "${id}". Available adapters: ${Array.from(adapters.keys()).join(', ')}`
+    );
+  }
+  return adapter;
+}
+
+export function listBotAdapters(): BotAdapter[] {
+  return Array.from(adapters.values());
+}
+
+// Bots come from TARGET_BOTS as a comma-separated list of `username[:adapter]`
+// (e.g. "copybot:default,otherbot:default"). TARGET_BOT_USERNAME is still
+// accepted for single-bot setups and uses the default adapter.
+export function getConfiguredBots(): ConfiguredBot[] {
+  const targetBots = process.env.TARGET_BOTS;
+
+  if (targetBots) {
+    return targetBots
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map((entry) => {
+        const [username, adapterId] = entry.split(':').map((part) => part.trim());
+        return { username, adapter: getBotAdapter(adapterId || DEFAULT_ADAPTER_ID) };
+      });
+  }
+
+  const botUsername = process.env.TARGET_BOT_USERNAME;
+  return botUsername ? [{ username: botUsername, adapter: defaultAdapter }] : [];
+}
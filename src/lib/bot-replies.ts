@@ -0,0 +1,135 @@
+import type { Api, TelegramClient } from 'telegram';
+import { NewMessage, type NewMessageEvent } from 'telegram/events';
+import { EditedMessage, type EditedMessageEvent } from 'telegram/events/EditedMessage';
+
+// How long a reply has to stay unedited before we take it as final. Bots
+// often send "Loading..." and then edit it, sometimes more than once.
+const SETTLE_MS = 1000;
+
+// A request for the next bot message at or after `minMessageId`
+interface PendingReply {
+  minMessageId: number;
+  seenTexts: Set<string>;
+  candidate: Api.Message | null;
+  settleTimer: NodeJS.Timeout | null;
+  timeoutTimer: NodeJS.Timeout;
+  resolve: (message: Api.Message | null) => void;
+}
+
+// Listens to new and edited messages from one bot while a request is in
+// flight, so replies are matched to the command we sent instead of polled
+// for. Start it before sending so nothing the bot says is missed.
+export class BotReplyWatcher {
+  // Latest version of every message the bot sent while we were listening
+  private messages = new Map<number, Api.Message>();
+  private pending: PendingReply | null = null;
+  private newMessages = new NewMessage({ incoming: true });
+  private editedMessages = new EditedMessage({ incoming: true });
+
+  constructor(
+    private client: TelegramClient,
+    private botId: string,
+    // Whether a message is a placeholder the bot will replace ("Loading...")
+    private isPendingMessage: (message: Api.Message) => boolean
+  ) {}
+
+  start(): void {
+    this.client.addEventHandler(this.onNewMessage, this.newMessages);
+    this.client.addEventHandler(this.onEditedMessage, this.editedMessages);
+  }
+
+  stop(): void {
+    this.client.removeEventHandler(this.onNewMessage, this.newMessages);
+    this.client.removeEventHandler(this.onEditedMessage, this.editedMessages);
+    if (this.pending) {
+      this.finish(this.pending.candidate);
+    }
+  }
+
+  // Resolve with the settled bot message at or after `minMessageId` (an
+  // in-place edit of that message counts) whose text isn't in `seenTexts`.
+  // On timeout, falls back to the last candidate even if it still looks
+  // pending, or null when the bot said nothing.
+  waitForReply(
+    minMessageId: number,
+    seenTexts: Set<string>,
+    timeout: number
+  ): Promise<Api.Message | null> {
+    if (this.pending) {
+      throw new Error('Already waiting for a bot reply');
+    }
+
+    return new Promise((resolve) => {
+      this.pending = {
+        minMessageId,
+        seenTexts,
+        candidate: null,
+        settleTimer: null,
+        timeoutTimer: setTimeout(() => this.finish(this.pending?.candidate ?? null), timeout),
+        resolve,
+      };
+
+      // Replies that arrived before we started waiting
+      for (const message of [...this.messages.values()].sort((a, b) => a.id - b.id)) {
+        this.consider(message);
+      }
+    });
+  }
+
+  private onNewMessage = (event: NewMessageEvent) => this.receive(event.message);
+
+  private onEditedMessage = (event: EditedMessageEvent) => this.receive(event.message);
+
+  private receive(message: Api.Message) {
+    if (message.senderId?.toString() !== this.botId || !message.message) {
+      return;
+    }
+
+    this.messages.set(message.id, message);
+    this.consider(message);
+  }
+
+  private consider(message: Api.Message) {
+    const pending = this.pending;
+    if (
+      !pending ||
+      message.id < pending.minMessageId ||
+      !message.message ||
+      pending.seenTexts.has(message.message)
+    ) {
+      return;
+    }
+
+    // A newer message takes over from the candidate; an edit replaces it
+    if (pending.candidate && message.id < pending.candidate.id) {
+      return;
+    }
+    pending.candidate = message;
+
+    if (pending.settleTimer) {
+      clearTimeout(pending.settleTimer);
+      pending.settleTimer = null;
+    }
+
+    // Placeholders are kept as a fallback but we keep waiting for the edit
+    if (this.isPendingMessage(message)) {
+      return;
+    }
+
+    pending.settleTimer = setTimeout(() => this.finish(pending.candidate), SETTLE_MS);
+  }
+
+  private finish(message: Api.Message | null) {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeoutTimer);
+    if (pending.settleTimer) {
+      clearTimeout(pending.settleTimer);
+    }
+    this.pending = null;
+    pending.resolve(message);
+  }
+}
@@ -0,0 +1,42 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+
+// Password hashes are stored as scrypt$<N>$<salt>$<hash> (base64 parts) so
+// the cost can be raised later without breaking existing users
+const SCRYPT_COST = 16384;
+const SALT_BYTES = 16;
+const HASH_BYTES = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Prefix on API tokens so they're recognisable in scripts and secret scanners
+export const API_TOKEN_PREFIX = 'tgd_';
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = scryptSync(password, salt, HASH_BYTES, { N: SCRYPT_COST });
+  return ['scrypt', SCRYPT_COST, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, cost, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !cost || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(cost),
+  });
+  return timingSafeEqual(actual, expected);
+}
+
+// Random secret for a session cookie or API token
+export function generateToken(prefix: string = ''): string {
+  return prefix + randomBytes(32).toString('base64url');
+}
+
+// Sessions and API tokens are looked up by this hash; the secret itself is
+// only ever held by the client
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -1,10 +1,33 @@
+import { randomUUID } from 'node:crypto';
 import { PrismaClient } from '@/generated/prisma/client';
 import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3';
+import { normalizeMarketQuestion } from './parser';
+import {
+  decryptSession,
+  getSessionKeys,
+  isCurrentlyEncrypted,
+  isEncryptedSession,
+  sealSession,
+} from './session-crypto';
 import type {
-  PortfolioSnapshotInput,
-  PositionInput,
+  Account,
+  ApiTokenInfo,
+  DashboardUser,
+  PendingAuth,
+  User,
+  AccountInput,
+  Market,
+  ParsedPortfolio,
+  ParsedTrade,
   CopyTradingEventInput,
+  PortfolioEventInput,
+  RefreshRun,
+  RefreshRunOutcome,
+  RefreshTrigger,
   PortfolioSnapshotWithPositions,
+  PortfolioSnapshotWithRawMessages,
+  RawMessage,
+  BotMessage,
   BalanceHistoryItem,
   InvestedByTrader,
   TimeRange,
@@ -28,6 +51,20 @@ if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
 }
 
+// Bumped by every write to snapshots or positions, so caches of data derived
+// from them (the realised PnL ledger) know when to recompute
+const globalForSnapshots = globalThis as unknown as {
+  snapshotGeneration: number | undefined;
+};
+
+function snapshotsChanged() {
+  globalForSnapshots.snapshotGeneration = getSnapshotGeneration() + 1;
+}
+
+export function getSnapshotGeneration(): number {
+  return globalForSnapshots.snapshotGeneration ?? 0;
+}
+
 // Helper to get start time for range
 function getStartTimeForRange(range: TimeRange): Date | null {
   const now = new Date();
@@ -47,93 +84,516 @@ function getStartTimeForRange(range: TimeRange): Date | null {
   }
 }
 
-// Save portfolio snapshot with positions
+function toRawMessageData(message: BotMessage, pageIndex: number) {
+  return {
+    telegramMessageId: message.id,
+    date: message.date.toISOString(),
+    text: message.text,
+    entities: JSON.stringify(message.entities),
+    buttons: JSON.stringify(message.buttons),
+    pageIndex,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Find the market for a question, preferring a URL match since question text
+// can change slightly between messages. Creates the market on first sight.
+export async function getOrCreateMarket(question: string, url: string | null): Promise<Market> {
+  const questionKey = normalizeMarketQuestion(question);
+
+  const existing =
+    (url ? await prisma.market.findFirst({ where: { url } }) : null) ??
+    (await prisma.market.findUnique({ where: { questionKey } }));
+
+  if (existing) {
+    if (url && !existing.url) {
+      return prisma.market.update({ where: { id: existing.id }, data: { url } });
+    }
+    return existing;
+  }
+
+  return prisma.market.create({
+    data: { questionKey, question, url, createdAt: new Date().toISOString() },
+  });
+}
+
+// Attach account and market ids to parsed positions before saving them
+async function toPositionData(
+  positions: ParsedPortfolio['positions'],
+  accountId: number | null
+) {
+  const data = [];
+  for (const position of positions) {
+    const market = await getOrCreateMarket(position.marketQuestion, position.marketUrl);
+    data.push({ ...position, accountId, marketId: market.id });
+  }
+  return data;
+}
+
+// Save portfolio snapshot with positions and the bot messages it was parsed from
 export async function savePortfolio(
-  snapshot: PortfolioSnapshotInput,
-  positions: Omit<PositionInput, 'snapshotId'>[]
+  accountId: number,
+  { snapshot, positions, warnings, confidence }: ParsedPortfolio,
+  rawMessages: BotMessage[] = []
 ): Promise<number> {
   const result = await prisma.portfolioSnapshot.create({
     data: {
       ...snapshot,
+      accountId,
+      parseConfidence: confidence,
+      parseWarnings: warnings.length > 0 ? JSON.stringify(warnings) : null,
       positions: {
-        create: positions,
+        create: await toPositionData(positions, accountId),
+      },
+      rawMessages: {
+        create: rawMessages.map(toRawMessageData),
       },
     },
   });
+  snapshotsChanged();
   return result.id;
 }
 
-// Get latest snapshot with positions
-export async function getLatestSnapshot(): Promise<PortfolioSnapshotWithPositions | null> {
-  return prisma.portfolioSnapshot.findFirst({
-    orderBy: { timestamp: 'desc' },
-    include: { positions: { orderBy: { marketQuestion: 'asc' } } },
+// Archive the pages of a response that parse validation rejected, so a
+// re-parse can make a snapshot of them once the parser handles them. Returns
+// false if the response was archived before, e.g. by an earlier backfill.
+export async function saveRejectedMessages(
+  accountId: number,
+  messages: BotMessage[],
+  confidence: number
+): Promise<boolean> {
+  const [first] = messages;
+  if (!first) {
+    return false;
+  }
+
+  const existing = await prisma.rawMessage.findFirst({
+    where: { accountId, telegramMessageId: first.id, pageIndex: 0, text: first.text },
+  });
+  if (existing) {
+    return false;
+  }
+
+  const rejectedGroup = randomUUID();
+  await prisma.rawMessage.createMany({
+    data: messages.map((message, pageIndex) => ({
+      ...toRawMessageData(message, pageIndex),
+      accountId,
+      rejectedGroup,
+      parseConfidence: confidence,
+    })),
+  });
+  return true;
+}
+
+// Rejected responses that no re-parse has accepted yet, each as its pages in
+// order, oldest first
+export async function getRejectedMessageGroups(): Promise<RawMessage[][]> {
+  const rows = await prisma.rawMessage.findMany({
+    where: { snapshotId: null, rejectedGroup: { not: null }, accountId: { not: null } },
+    orderBy: [{ date: 'asc' }, { pageIndex: 'asc' }],
+  });
+
+  const groups = new Map<string, RawMessage[]>();
+  for (const row of rows) {
+    const group = groups.get(row.rejectedGroup!) ?? [];
+    group.push(row);
+    groups.set(row.rejectedGroup!, group);
+  }
+  return [...groups.values()].map((pages) => pages.sort((a, b) => a.pageIndex - b.pageIndex));
+}
+
+// Attach a rejected response's pages to the snapshot a re-parse made of them
+export async function attachRejectedMessages(
+  rejectedGroup: string,
+  snapshotId: number
+): Promise<void> {
+  await prisma.rawMessage.updateMany({
+    where: { rejectedGroup },
+    data: { snapshotId, rejectedGroup: null, parseConfidence: null },
+  });
+}
+
+// Get every snapshot that has archived messages, oldest first
+export async function getArchivedSnapshots(): Promise<PortfolioSnapshotWithRawMessages[]> {
+  return prisma.portfolioSnapshot.findMany({
+    where: { rawMessages: { some: {} } },
+    orderBy: { timestamp: 'asc' },
+    include: { rawMessages: { orderBy: { pageIndex: 'asc' } }, account: true },
   });
 }
 
+// Replace a snapshot's summary and positions with a fresh parse
+export async function replaceSnapshotContents(
+  snapshotId: number,
+  { snapshot, positions, warnings, confidence }: ParsedPortfolio
+): Promise<void> {
+  const existing = await prisma.portfolioSnapshot.findUniqueOrThrow({
+    where: { id: snapshotId },
+    select: { accountId: true },
+  });
+
+  await prisma.$transaction([
+    prisma.position.deleteMany({ where: { snapshotId } }),
+    prisma.portfolioSnapshot.update({
+      where: { id: snapshotId },
+      data: {
+        ...snapshot,
+        parseConfidence: confidence,
+        parseWarnings: warnings.length > 0 ? JSON.stringify(warnings) : null,
+        positions: {
+          create: await toPositionData(positions, existing.accountId),
+        },
+      },
+    }),
+  ]);
+  snapshotsChanged();
+}
+
+// Get latest snapshot with positions. Without an account, the latest
+// snapshot of every account is combined into one.
+export async function getLatestSnapshot(
+  accountId?: number
+): Promise<PortfolioSnapshotWithPositions | null> {
+  if (accountId !== undefined) {
+    return prisma.portfolioSnapshot.findFirst({
+      where: { accountId },
+      orderBy: { timestamp: 'desc' },
+      include: { positions: { orderBy: { marketQuestion: 'asc' } } },
+    });
+  }
+
+  const accounts = await prisma.account.findMany({ select: { id: true } });
+  const latest = (await Promise.all(accounts.map((account) => getLatestSnapshot(account.id)))).filter(
+    (snapshot): snapshot is PortfolioSnapshotWithPositions => snapshot !== null
+  );
+
+  if (latest.length === 0) {
+    // Snapshots saved before accounts existed
+    return prisma.portfolioSnapshot.findFirst({
+      orderBy: { timestamp: 'desc' },
+      include: { positions: { orderBy: { marketQuestion: 'asc' } } },
+    });
+  }
+
+  return latest.length === 1 ? latest[0] : combineSnapshots(latest);
+}
+
+// Sum several accounts' snapshots into one synthetic snapshot (id 0)
+function combineSnapshots(
+  snapshots: PortfolioSnapshotWithPositions[]
+): PortfolioSnapshotWithPositions {
+  const sum = (field: 'totalBalance' | 'availableBalance' | 'invested' | 'value' | 'totalPnlUsd') =>
+    snapshots.reduce((total, snapshot) => total + snapshot[field], 0);
+
+  const invested = sum('invested');
+  const totalPnlUsd = sum('totalPnlUsd');
+  const warnings = snapshots.flatMap((snapshot) =>
+    snapshot.parseWarnings ? JSON.parse(snapshot.parseWarnings) : []
+  );
+
+  return {
+    id: 0,
+    accountId: null,
+    totalBalance: sum('totalBalance'),
+    availableBalance: sum('availableBalance'),
+    invested,
+    value: sum('value'),
+    totalPnlUsd,
+    totalPnlPct: invested > 0 ? (totalPnlUsd / invested) * 100 : 0,
+    timestamp: snapshots.map((snapshot) => snapshot.timestamp).sort().at(-1)!,
+    totalPositions: snapshots.reduce((total, snapshot) => total + (snapshot.totalPositions ?? 0), 0),
+    parseConfidence: Math.min(...snapshots.map((snapshot) => snapshot.parseConfidence ?? 1)),
+    parseWarnings: warnings.length > 0 ? JSON.stringify(warnings) : null,
+    positions: snapshots
+      .flatMap((snapshot) => snapshot.positions)
+      .sort((a, b) => a.marketQuestion.localeCompare(b.marketQuestion)),
+  };
+}
+
 // Get history of snapshots
-export async function getHistory(limit: number = 50) {
+export async function getHistory(limit: number = 50, accountId?: number) {
   return prisma.portfolioSnapshot.findMany({
+    where: accountId !== undefined ? { accountId } : undefined,
     orderBy: { timestamp: 'desc' },
     take: limit,
   });
 }
 
-// Get balance history for charts
-export async function getBalanceHistory(range: TimeRange = '7d'): Promise<BalanceHistoryItem[]> {
+function snapshotRangeFilter(range: TimeRange, accountId?: number) {
   const startTime = getStartTimeForRange(range);
+  return {
+    ...(startTime ? { timestamp: { gte: startTime.toISOString() } } : {}),
+    ...(accountId !== undefined ? { accountId } : {}),
+  };
+}
 
+// Get balance history for charts. Accounts are refreshed at different times,
+// so each point carries every other account's latest balance forward.
+export async function getBalanceHistory(
+  range: TimeRange = '7d',
+  accountId?: number
+): Promise<BalanceHistoryItem[]> {
   const snapshots = await prisma.portfolioSnapshot.findMany({
-    where: startTime ? { timestamp: { gte: startTime.toISOString() } } : undefined,
+    where: snapshotRangeFilter(range, accountId),
     orderBy: { timestamp: 'asc' },
     select: {
       timestamp: true,
       totalBalance: true,
       invested: true,
+      accountId: true,
     },
   });
 
-  return snapshots;
+  const latestByAccount = new Map<number | null, { totalBalance: number; invested: number }>();
+
+  return snapshots.map((snapshot) => {
+    latestByAccount.set(snapshot.accountId, snapshot);
+    const latest = Array.from(latestByAccount.values());
+    return {
+      timestamp: snapshot.timestamp,
+      totalBalance: latest.reduce((total, item) => total + item.totalBalance, 0),
+      invested: latest.reduce((total, item) => total + item.invested, 0),
+    };
+  });
 }
 
-// Get invested by trader for chart breakdown
-export async function getInvestedByTrader(range: TimeRange = '7d'): Promise<InvestedByTrader[]> {
-  const startTime = getStartTimeForRange(range);
+// Get invested by trader for chart breakdown, combining accounts the same
+// way as getBalanceHistory
+export async function getInvestedByTrader(
+  range: TimeRange = '7d',
+  accountId?: number
+): Promise<InvestedByTrader[]> {
+  const snapshots = await prisma.portfolioSnapshot.findMany({
+    where: snapshotRangeFilter(range, accountId),
+    orderBy: { timestamp: 'asc' },
+    select: {
+      timestamp: true,
+      accountId: true,
+      positions: {
+        where: { copiedFrom: { not: null } },
+        select: { copiedFrom: true, invested: true, value: true },
+      },
+    },
+  });
+
+  const latestByAccount = new Map<number | null, Map<string, number>>();
+  const results: InvestedByTrader[] = [];
 
-  // We need to use raw query for aggregation with grouping
-  const results = await prisma.$queryRaw<InvestedByTrader[]>`
-    SELECT
-      s.timestamp,
-      p.copied_from as trader,
-      SUM(COALESCE(NULLIF(p.invested, 0), p.value)) as invested
-    FROM portfolio_snapshots s
-    INNER JOIN positions p ON p.snapshot_id = s.id
-    WHERE p.copied_from IS NOT NULL AND p.copied_from != ''
-      ${startTime ? `AND s.timestamp >= '${startTime.toISOString()}'` : ''}
-    GROUP BY s.timestamp, p.copied_from
-    HAVING SUM(COALESCE(NULLIF(p.invested, 0), p.value)) > 0
-    ORDER BY s.timestamp ASC
-  `;
+  for (const snapshot of snapshots) {
+    const traders = new Map<string, number>();
+    for (const position of snapshot.positions) {
+      if (!position.copiedFrom) continue;
+      // Fall back to current value when the bot didn't report invested
+      const invested = position.invested || position.value;
+      traders.set(position.copiedFrom, (traders.get(position.copiedFrom) ?? 0) + invested);
+    }
+    latestByAccount.set(snapshot.accountId, traders);
+
+    const totals = new Map<string, number>();
+    for (const accountTraders of latestByAccount.values()) {
+      for (const [trader, invested] of accountTraders) {
+        totals.set(trader, (totals.get(trader) ?? 0) + invested);
+      }
+    }
+
+    for (const [trader, invested] of totals) {
+      if (invested > 0) {
+        results.push({ timestamp: snapshot.timestamp, trader, invested });
+      }
+    }
+  }
 
   return results;
 }
 
-// Save copy trading event
-export async function saveCopyTradingEvent(event: CopyTradingEventInput): Promise<number> {
-  const result = await prisma.copyTradingEvent.create({
-    data: event,
+// Link positions saved before markets existed to their market
+export async function linkPositionsToMarkets(): Promise<number> {
+  const unlinked = await prisma.position.findMany({
+    where: { marketId: null },
+    select: { id: true, marketQuestion: true, marketUrl: true },
+  });
+
+  const idsByMarket = new Map<number, number[]>();
+  for (const position of unlinked) {
+    const market = await getOrCreateMarket(position.marketQuestion, position.marketUrl);
+    idsByMarket.set(market.id, [...(idsByMarket.get(market.id) ?? []), position.id]);
+  }
+
+  for (const [marketId, ids] of idsByMarket) {
+    await prisma.position.updateMany({ where: { id: { in: ids } }, data: { marketId } });
+  }
+  if (unlinked.length > 0) {
+    snapshotsChanged();
+  }
+
+  return unlinked.length;
+}
+
+export async function getMarket(id: number): Promise<Market | null> {
+  return prisma.market.findUnique({ where: { id } });
+}
+
+// Every position held in a market, with the time of its snapshot, oldest first
+export async function getMarketPositions(marketId: number) {
+  return prisma.position.findMany({
+    where: { marketId },
+    include: { snapshot: { select: { timestamp: true } } },
+    orderBy: { snapshot: { timestamp: 'asc' } },
+  });
+}
+
+// Ids and times of an account's snapshots from `since` onwards
+export async function getSnapshotTimeline(accountId: number | null, since: string) {
+  return prisma.portfolioSnapshot.findMany({
+    where: { accountId, timestamp: { gte: since } },
+    orderBy: { timestamp: 'asc' },
+    select: { id: true, timestamp: true },
+  });
+}
+
+// Get a snapshot with its positions
+export async function getSnapshotWithPositions(
+  id: number
+): Promise<PortfolioSnapshotWithPositions | null> {
+  return prisma.portfolioSnapshot.findUnique({
+    where: { id },
+    include: { positions: true },
+  });
+}
+
+// Get the account's snapshot taken just before `timestamp`
+export async function getPreviousSnapshot(
+  accountId: number | null,
+  timestamp: string
+): Promise<PortfolioSnapshotWithPositions | null> {
+  return prisma.portfolioSnapshot.findFirst({
+    where: { accountId, timestamp: { lt: timestamp } },
+    orderBy: { timestamp: 'desc' },
+    include: { positions: true },
+  });
+}
+
+// Get every snapshot of an account with positions, oldest first
+export async function getAccountSnapshots(
+  accountId: number
+): Promise<PortfolioSnapshotWithPositions[]> {
+  return prisma.portfolioSnapshot.findMany({
+    where: { accountId },
+    orderBy: { timestamp: 'asc' },
+    include: { positions: true },
+  });
+}
+
+// Snapshots for the realised PnL ledger, oldest first, with only the position
+// fields it needs
+export async function getLedgerSnapshots(accountId?: number) {
+  return prisma.portfolioSnapshot.findMany({
+    where: accountId !== undefined ? { accountId } : undefined,
+    orderBy: { timestamp: 'asc' },
+    select: {
+      id: true,
+      timestamp: true,
+      accountId: true,
+      positions: {
+        select: {
+          marketId: true,
+          marketQuestion: true,
+          side: true,
+          shares: true,
+          invested: true,
+          value: true,
+          pnlUsd: true,
+          copiedFrom: true,
+        },
+      },
+    },
+  });
+}
+
+// Save position events
+export async function savePortfolioEvents(events: PortfolioEventInput[]): Promise<number> {
+  const result = await prisma.portfolioEvent.createMany({ data: events });
+  return result.count;
+}
+
+// Get position events, newest first
+export async function getPortfolioEvents(limit: number = 100, accountId?: number) {
+  return prisma.portfolioEvent.findMany({
+    where: accountId !== undefined ? { accountId } : undefined,
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+}
+
+export async function deletePortfolioEvents(accountId: number): Promise<number> {
+  const result = await prisma.portfolioEvent.deleteMany({ where: { accountId } });
+  return result.count;
+}
+
+// Trades
+
+// Save a trade unless its notification was saved before; returns whether it was new
+export async function saveTrade(accountId: number, trade: ParsedTrade): Promise<boolean> {
+  const existing = await prisma.trade.findUnique({
+    where: {
+      accountId_telegramMessageId: { accountId, telegramMessageId: trade.telegramMessageId },
+    },
+  });
+  if (existing) {
+    return false;
+  }
+
+  const market = await getOrCreateMarket(trade.marketQuestion, trade.marketUrl);
+  await prisma.trade.create({ data: { ...trade, accountId, marketId: market.id } });
+  return true;
+}
+
+export async function getTrades(limit: number = 100, accountId?: number) {
+  return prisma.trade.findMany({
+    where: accountId !== undefined ? { accountId } : undefined,
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+}
+
+// Save copy trading events
+export async function saveCopyTradingEvents(events: CopyTradingEventInput[]): Promise<number> {
+  const result = await prisma.copyTradingEvent.createMany({ data: events });
+  return result.count;
+}
+
+export async function deleteCopyTradingEvents(accountId: number): Promise<number> {
+  const result = await prisma.copyTradingEvent.deleteMany({ where: { accountId } });
+  return result.count;
+}
+
+// Get copy trading events, newest first
+export async function getRecentCopyTradingEvents(limit: number = 100, accountId?: number) {
+  return prisma.copyTradingEvent.findMany({
+    where: accountId !== undefined ? { accountId } : undefined,
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    take: limit,
   });
-  return result.id;
 }
 
 // Get copy trading events
-export async function getCopyTradingEvents(limit: number = 100) {
+export async function getCopyTradingEvents(limit: number = 100, accountId?: number) {
   return prisma.copyTradingEvent.findMany({
+    where: accountId !== undefined ? { accountId } : undefined,
     orderBy: { timestamp: 'asc' },
     take: limit,
   });
 }
 
+// Get copy trading events for one trader, newest first
+export async function getTraderEvents(traderName: string, accountId?: number) {
+  return prisma.copyTradingEvent.findMany({
+    where: { traderName, ...(accountId !== undefined ? { accountId } : {}) },
+    orderBy: { timestamp: 'desc' },
+  });
+}
+
 // Get unique traders from a snapshot
 export async function getUniqueTraders(snapshotId: number): Promise<string[]> {
   const positions = await prisma.position.findMany({
@@ -152,6 +612,7 @@ export async function getUniqueTraders(snapshotId: number): Promise<string[]> {
 
 // Check if snapshot exists near timestamp (duplicate detection)
 export async function snapshotExistsNearTimestamp(
+  accountId: number,
   timestamp: string,
   toleranceMinutes: number = 5
 ): Promise<boolean> {
@@ -161,6 +622,7 @@ export async function snapshotExistsNearTimestamp(
 
   const existing = await prisma.portfolioSnapshot.findFirst({
     where: {
+      accountId,
       timestamp: {
         gte: minTime.toISOString(),
         lte: maxTime.toISOString(),
@@ -171,6 +633,81 @@ export async function snapshotExistsNearTimestamp(
   return existing !== null;
 }
 
+// Account helpers
+export async function getAccounts(): Promise<Account[]> {
+  return prisma.account.findMany({ orderBy: { id: 'asc' } });
+}
+
+export async function getAccount(id: number): Promise<Account | null> {
+  return prisma.account.findUnique({ where: { id } });
+}
+
+export async function createAccount(account: AccountInput): Promise<Account> {
+  return prisma.account.create({
+    data: { ...account, createdAt: new Date().toISOString() },
+  });
+}
+
+// Create the account for a bot if it doesn't exist yet
+export async function ensureAccountForBot(botUsername: string, adapter: string): Promise<Account> {
+  return prisma.account.upsert({
+    where: { botUsername },
+    update: {},
+    create: { name: botUsername, botUsername, adapter, createdAt: new Date().toISOString() },
+  });
+}
+
+// Assign rows saved before accounts existed to an account
+export async function assignUntaggedRecords(accountId: number): Promise<number> {
+  const [snapshots] = await prisma.$transaction([
+    prisma.portfolioSnapshot.updateMany({ where: { accountId: null }, data: { accountId } }),
+    prisma.position.updateMany({ where: { accountId: null }, data: { accountId } }),
+    prisma.copyTradingEvent.updateMany({ where: { accountId: null }, data: { accountId } }),
+  ]);
+  snapshotsChanged();
+  return snapshots.count;
+}
+
+// Refresh run helpers
+export async function startRefreshRun(
+  trigger: RefreshTrigger,
+  accountId?: number
+): Promise<RefreshRun> {
+  return prisma.refreshRun.create({
+    data: { trigger, accountId, startedAt: new Date().toISOString() },
+  });
+}
+
+export async function finishRefreshRun(
+  id: number,
+  result: {
+    outcome: Exclude<RefreshRunOutcome, 'running'>;
+    error: string | null;
+    responseLength: number | null;
+    snapshotId: number | null;
+  }
+): Promise<RefreshRun> {
+  return prisma.refreshRun.update({
+    where: { id },
+    data: { ...result, finishedAt: new Date().toISOString() },
+  });
+}
+
+// Get refresh runs, newest first
+export async function getRefreshRuns(limit: number = 50): Promise<RefreshRun[]> {
+  return prisma.refreshRun.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+}
+
+export async function getLastSuccessfulRefreshRun(): Promise<RefreshRun | null> {
+  return prisma.refreshRun.findFirst({
+    where: { outcome: { in: ['success', 'partial'] } },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
 // App settings helpers
 export async function getSetting(key: string): Promise<string | null> {
   const setting = await prisma.appSetting.findUnique({
@@ -193,15 +730,254 @@ export async function saveSetting(key: string, value: string): Promise<boolean>
   }
 }
 
-// Telegram session helpers
+// Lease helpers. A lease is held until it expires or its holder releases it;
+// acquiring again as the same holder extends it.
+export async function acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+  const now = new Date();
+  const acquiredAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+  const existing = await prisma.lease.findUnique({ where: { name } });
+  if (!existing) {
+    try {
+      await prisma.lease.create({ data: { name, holder, acquiredAt, expiresAt } });
+      return true;
+    } catch {
+      // Another process created it first; fall through and compete for it
+    }
+  }
+
+  const result = await prisma.lease.updateMany({
+    where: { name, OR: [{ holder }, { expiresAt: { lt: acquiredAt } }] },
+    data: { holder, acquiredAt, expiresAt },
+  });
+  return result.count > 0;
+}
+
+// Push back the expiry of a lease we hold; false if it was lost meanwhile
+export async function renewLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+  const result = await prisma.lease.updateMany({
+    where: { name, holder },
+    data: { expiresAt: new Date(Date.now() + ttlMs).toISOString() },
+  });
+  return result.count > 0;
+}
+
+export async function releaseLease(name: string, holder: string): Promise<void> {
+  await prisma.lease.deleteMany({ where: { name, holder } });
+}
+
+// Dashboard users, login sessions and API tokens. Sessions and tokens are
+// keyed by a hash of the secret (see credentials.ts).
+const DASHBOARD_USER_FIELDS = { id: true, username: true, createdAt: true } as const;
+const API_TOKEN_FIELDS = {
+  id: true,
+  name: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+} as const;
+
+export async function countUsers(): Promise<number> {
+  return prisma.user.count();
+}
+
+export async function getUsers(): Promise<DashboardUser[]> {
+  return prisma.user.findMany({ select: DASHBOARD_USER_FIELDS, orderBy: { id: 'asc' } });
+}
+
+export async function getUserByUsername(username: string): Promise<User | null> {
+  return prisma.user.findUnique({ where: { username } });
+}
+
+export async function createUser(username: string, passwordHash: string): Promise<DashboardUser> {
+  return prisma.user.create({
+    data: { username, passwordHash, createdAt: new Date().toISOString() },
+    select: DASHBOARD_USER_FIELDS,
+  });
+}
+
+export async function deleteUser(id: number): Promise<boolean> {
+  const result = await prisma.user.deleteMany({ where: { id } });
+  return result.count > 0;
+}
+
+export async function createUserSession(
+  id: string,
+  userId: number,
+  expiresAt: Date
+): Promise<void> {
+  await prisma.userSession.create({
+    data: {
+      id,
+      userId,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    },
+  });
+}
+
+// The user a session belongs to, if the session exists and hasn't expired
+export async function getUserSessionUser(id: string): Promise<DashboardUser | null> {
+  const session = await prisma.userSession.findUnique({
+    where: { id },
+    include: { user: { select: DASHBOARD_USER_FIELDS } },
+  });
+  if (!session || session.expiresAt <= new Date().toISOString()) {
+    return null;
+  }
+  return session.user;
+}
+
+export async function deleteUserSession(id: string): Promise<void> {
+  await prisma.userSession.deleteMany({ where: { id } });
+}
+
+export async function deleteExpiredUserSessions(): Promise<number> {
+  const result = await prisma.userSession.deleteMany({
+    where: { expiresAt: { lte: new Date().toISOString() } },
+  });
+  return result.count;
+}
+
+export async function createApiToken(name: string, tokenHash: string): Promise<ApiTokenInfo> {
+  return prisma.apiToken.create({
+    data: { name, tokenHash, createdAt: new Date().toISOString() },
+    select: API_TOKEN_FIELDS,
+  });
+}
+
+export async function getApiTokens(): Promise<ApiTokenInfo[]> {
+  return prisma.apiToken.findMany({ select: API_TOKEN_FIELDS, orderBy: { id: 'desc' } });
+}
+
+// Look up an unrevoked token and note that it was used
+export async function findActiveApiToken(tokenHash: string): Promise<ApiTokenInfo | null> {
+  const token = await prisma.apiToken.findUnique({ where: { tokenHash } });
+  if (!token || token.revokedAt) {
+    return null;
+  }
+  return prisma.apiToken.update({
+    where: { id: token.id },
+    data: { lastUsedAt: new Date().toISOString() },
+    select: API_TOKEN_FIELDS,
+  });
+}
+
+export async function revokeApiToken(id: number): Promise<boolean> {
+  const result = await prisma.apiToken.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date().toISOString() },
+  });
+  return result.count > 0;
+}
+
+// Telegram logins in progress (see auth-sessions.ts). Their temporary
+// session is encrypted like the Telegram session, so without a key a login
+// can't start unless plaintext storage is allowed.
+export async function savePendingAuth(auth: PendingAuth): Promise<void> {
+  const data = { ...auth, session: sealSession(auth.session, getSessionKeys()) };
+  await prisma.pendingAuth.upsert({ where: { id: auth.id }, update: data, create: data });
+}
+
+// A login in progress, unless it has expired
+export async function getPendingAuth(id: string): Promise<PendingAuth | null> {
+  const auth = await prisma.pendingAuth.findUnique({ where: { id } });
+  if (!auth || auth.expiresAt <= new Date().toISOString()) {
+    return null;
+  }
+  return { ...auth, session: decryptSession(auth.session, getSessionKeys()) };
+}
+
+export async function deletePendingAuth(id: string): Promise<void> {
+  await prisma.pendingAuth.deleteMany({ where: { id } });
+}
+
+export async function deleteExpiredPendingAuths(): Promise<number> {
+  const result = await prisma.pendingAuth.deleteMany({
+    where: { expiresAt: { lte: new Date().toISOString() } },
+  });
+  return result.count;
+}
+
+// Telegram session helpers. The session is encrypted at rest with
+// SESSION_ENCRYPTION_KEY, and only stored in plaintext when
+// ALLOW_PLAINTEXT_SESSIONS is set (see session-crypto.ts).
+const TELEGRAM_SESSION_KEY = 'telegram_session';
+const TELEGRAM_SESSION_CREATED_KEY = 'telegram_session_created_at';
+
 export async function getTelegramSession(): Promise<string | null> {
-  return getSetting('telegram_session');
+  const stored = await getSetting(TELEGRAM_SESSION_KEY);
+  return stored ? decryptSession(stored, getSessionKeys()) : null;
+}
+
+// Whether a session is stored, without decrypting it
+export async function hasTelegramSession(): Promise<boolean> {
+  return (await getSetting(TELEGRAM_SESSION_KEY)) !== null;
+}
+
+// When the stored session was created by logging in; null if it predates
+// tracking or was imported from the environment
+export async function getTelegramSessionCreatedAt(): Promise<string | null> {
+  return getSetting(TELEGRAM_SESSION_CREATED_KEY);
 }
 
+// Save a session from a completed login
 export async function saveTelegramSession(sessionString: string): Promise<boolean> {
-  const saved = await saveSetting('telegram_session', sessionString);
+  const saved = await storeTelegramSession(sessionString);
+  if (saved) {
+    await saveSetting(TELEGRAM_SESSION_CREATED_KEY, new Date().toISOString());
+  }
+  return saved;
+}
+
+export async function deleteTelegramSession(): Promise<void> {
+  await prisma.appSetting.deleteMany({
+    where: { key: { in: [TELEGRAM_SESSION_KEY, TELEGRAM_SESSION_CREATED_KEY] } },
+  });
+  console.log('[DB] Telegram session deleted from database');
+}
+
+// Encrypt and store a session, leaving its creation date alone
+async function storeTelegramSession(sessionString: string): Promise<boolean> {
+  const keys = getSessionKeys();
+  const stored = sealSession(sessionString, keys);
+  if (!keys) {
+    console.warn('[DB] Saving Telegram session unencrypted (ALLOW_PLAINTEXT_SESSIONS is set)');
+  }
+
+  const saved = await saveSetting(TELEGRAM_SESSION_KEY, stored);
   if (saved) {
     console.log('[DB] Telegram session saved to database');
   }
   return saved;
 }
+
+export type SessionMigration = 'encrypted' | 'rotated' | 'imported' | 'unchanged';
+
+// Bring the stored session up to date with the configured key: encrypt one
+// saved in plaintext, re-encrypt one under an old key, or move a plaintext
+// TELEGRAM_SESSION from the environment into the database
+export async function migrateTelegramSession(): Promise<SessionMigration> {
+  const keys = getSessionKeys();
+  if (!keys) {
+    return 'unchanged';
+  }
+
+  const stored = await getSetting(TELEGRAM_SESSION_KEY);
+  if (!stored) {
+    const envSession = process.env.TELEGRAM_SESSION;
+    if (!envSession) {
+      return 'unchanged';
+    }
+    await storeTelegramSession(decryptSession(envSession, keys));
+    return 'imported';
+  }
+
+  if (isCurrentlyEncrypted(stored, keys)) {
+    return 'unchanged';
+  }
+
+  await storeTelegramSession(decryptSession(stored, keys));
+  return isEncryptedSession(stored) ? 'rotated' : 'encrypted';
+}
@@ -0,0 +1,144 @@
+import { normalizeMarketQuestion } from './parser';
+import type { Position, PositionEventType } from './types';
+
+// Share counts are shown with two decimals, so smaller changes are rounding
+export const SHARES_TOLERANCE = 0.01;
+// A position last seen priced within this of 0 or 1 disappeared because its
+// market resolved (and was redeemed), not because it was sold
+export const RESOLVED_PRICE_MARGIN = 0.01;
+
+export type DiffPosition = Pick<
+  Position,
+  'marketId' | 'marketQuestion' | 'side' | 'shares' | 'invested' | 'value' | 'pnlUsd'
+>;
+
+// One change between two snapshots. `position` is the current position, or
+// the last seen one when it was closed or resolved.
+export interface PositionChange {
+  eventType: PositionEventType;
+  position: DiffPosition;
+  previousShares: number | null;
+  shares: number | null;
+  description: string;
+}
+
+export function marketKey(position: DiffPosition): string {
+  return position.marketId !== null
+    ? `id:${position.marketId}`
+    : `q:${normalizeMarketQuestion(position.marketQuestion)}`;
+}
+
+function groupByMarket(positions: DiffPosition[]): Map<string, Map<string, DiffPosition>> {
+  const markets = new Map<string, Map<string, DiffPosition>>();
+  for (const position of positions) {
+    const key = marketKey(position);
+    const sides = markets.get(key) ?? new Map<string, DiffPosition>();
+    sides.set(position.side, position);
+    markets.set(key, sides);
+  }
+  return markets;
+}
+
+function formatShares(shares: number): string {
+  return shares.toFixed(2);
+}
+
+export function isResolved(position: DiffPosition): boolean {
+  if (position.shares <= 0) {
+    return false;
+  }
+  const price = position.value / position.shares;
+  return price <= RESOLVED_PRICE_MARGIN || price >= 1 - RESOLVED_PRICE_MARGIN;
+}
+
+function opened(position: DiffPosition): PositionChange {
+  return {
+    eventType: 'position_opened',
+    position,
+    previousShares: null,
+    shares: position.shares,
+    description: `Opened ${position.side} on ${position.marketQuestion} (${formatShares(position.shares)} shares)`,
+  };
+}
+
+function closed(position: DiffPosition): PositionChange {
+  const resolved = isResolved(position);
+  return {
+    eventType: resolved ? 'position_resolved' : 'position_closed',
+    position,
+    previousShares: position.shares,
+    shares: null,
+    description: resolved
+      ? `${position.side} on ${position.marketQuestion} resolved`
+      : `Closed ${position.side} on ${position.marketQuestion}`,
+  };
+}
+
+// Compare the positions of two consecutive snapshots of the same account
+export function diffPositions(previous: DiffPosition[], current: DiffPosition[]): PositionChange[] {
+  const previousMarkets = groupByMarket(previous);
+  const currentMarkets = groupByMarket(current);
+  const changes: PositionChange[] = [];
+
+  for (const [key, currentSides] of currentMarkets) {
+    const previousSides = previousMarkets.get(key);
+
+    if (!previousSides) {
+      for (const position of currentSides.values()) {
+        changes.push(opened(position));
+      }
+      continue;
+    }
+
+    // Holding only the other side now
+    if (previousSides.size === 1 && currentSides.size === 1) {
+      const [before] = previousSides.values();
+      const [after] = currentSides.values();
+      if (before.side !== after.side) {
+        changes.push({
+          eventType: 'side_flipped',
+          position: after,
+          previousShares: before.shares,
+          shares: after.shares,
+          description: `Flipped ${after.marketQuestion} from ${before.side} to ${after.side}`,
+        });
+        continue;
+      }
+    }
+
+    for (const [side, position] of currentSides) {
+      const before = previousSides.get(side);
+      if (!before) {
+        changes.push(opened(position));
+        continue;
+      }
+
+      const delta = position.shares - before.shares;
+      if (Math.abs(delta) > SHARES_TOLERANCE) {
+        changes.push({
+          eventType: delta > 0 ? 'position_increased' : 'position_decreased',
+          position,
+          previousShares: before.shares,
+          shares: position.shares,
+          description: `${delta > 0 ? 'Increased' : 'Decreased'} ${side} on ${position.marketQuestion} from ${formatShares(before.shares)} to ${formatShares(position.shares)} shares`,
+        });
+      }
+    }
+
+    for (const [side, position] of previousSides) {
+      if (!currentSides.has(side)) {
+        changes.push(closed(position));
+      }
+    }
+  }
+
+  for (const [key, previousSides] of previousMarkets) {
+    if (!currentMarkets.has(key)) {
+      for (const position of previousSides.values()) {
+        changes.push(closed(position));
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,174 @@
+import { diffPositions, type PositionChange } from './diff';
+import {
+  deleteCopyTradingEvents,
+  deletePortfolioEvents,
+  getAccounts,
+  getAccountSnapshots,
+  getPreviousSnapshot,
+  getSnapshotWithPositions,
+  saveCopyTradingEvents,
+  savePortfolioEvents,
+} from './db';
+import type {
+  CopyTradingEventInput,
+  PortfolioEventInput,
+  PortfolioSnapshot,
+  PortfolioSnapshotWithPositions,
+  Position,
+} from './types';
+
+function toEventInput(snapshot: PortfolioSnapshot, change: PositionChange): PortfolioEventInput {
+  return {
+    timestamp: snapshot.timestamp,
+    eventType: change.eventType,
+    description: change.description,
+    side: change.position.side,
+    previousShares: change.previousShares,
+    shares: change.shares,
+    invested: change.position.invested,
+    value: change.position.value,
+    pnlUsd: change.position.pnlUsd,
+    accountId: snapshot.accountId,
+    snapshotId: snapshot.id,
+    marketId: change.position.marketId,
+  };
+}
+
+function copiedTraders(positions: Position[]): Set<string> {
+  return new Set(
+    positions
+      .map((position) => position.copiedFrom)
+      .filter((name): name is string => name !== null && name !== '')
+  );
+}
+
+// Compare the traders copied in a snapshot with the account's previous one.
+// Everyone in an account's first snapshot counts as newly copied.
+function diffCopiedTraders(
+  snapshot: PortfolioSnapshotWithPositions,
+  previous: PortfolioSnapshotWithPositions | null
+): CopyTradingEventInput[] {
+  const currentTraders = copiedTraders(snapshot.positions);
+  const knownTraders = copiedTraders(previous?.positions ?? []);
+  const events: CopyTradingEventInput[] = [];
+
+  for (const trader of currentTraders) {
+    if (!knownTraders.has(trader)) {
+      events.push({
+        timestamp: snapshot.timestamp,
+        eventType: 'copier_added',
+        description: `Started copying ${trader}`,
+        traderName: trader,
+        accountId: snapshot.accountId,
+      });
+    }
+  }
+
+  for (const trader of knownTraders) {
+    if (!currentTraders.has(trader)) {
+      events.push({
+        timestamp: snapshot.timestamp,
+        eventType: 'copier_removed',
+        description: `Stopped copying ${trader}`,
+        traderName: trader,
+        accountId: snapshot.accountId,
+      });
+    }
+  }
+
+  return events;
+}
+
+async function recordCopyTradingEvents(
+  snapshot: PortfolioSnapshotWithPositions,
+  previous: PortfolioSnapshotWithPositions | null
+): Promise<number> {
+  const events = diffCopiedTraders(snapshot, previous);
+  if (events.length === 0) {
+    return 0;
+  }
+
+  for (const event of events) {
+    console.log(`[EVENTS] ${event.description}`);
+  }
+
+  return saveCopyTradingEvents(events);
+}
+
+// Diff positions against the previous snapshot. The first snapshot of an
+// account has nothing to compare with.
+async function recordPositionEvents(
+  snapshot: PortfolioSnapshotWithPositions,
+  previous: PortfolioSnapshotWithPositions | null
+): Promise<number> {
+  if (!previous) {
+    return 0;
+  }
+
+  const changes = diffPositions(previous.positions, snapshot.positions);
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  for (const change of changes) {
+    console.log(`[EVENTS] ${change.description}`);
+  }
+
+  return savePortfolioEvents(changes.map((change) => toEventInput(snapshot, change)));
+}
+
+// Record what changed between a newly saved snapshot and the account's
+// previous one: copied traders and positions. Everything is read from the
+// database, so manual and scheduled refreshes always agree.
+export async function recordSnapshotEvents(snapshotId: number): Promise<number> {
+  const snapshot = await getSnapshotWithPositions(snapshotId);
+  if (!snapshot) {
+    return 0;
+  }
+
+  const previous = await getPreviousSnapshot(snapshot.accountId, snapshot.timestamp);
+
+  return (
+    (await recordCopyTradingEvents(snapshot, previous)) +
+    (await recordPositionEvents(snapshot, previous))
+  );
+}
+
+// Recompute an account's events, copied traders and positions alike, from
+// its whole snapshot history. Needed when snapshots are inserted out of order
+// (history backfill) or re-parsed.
+export async function rebuildSnapshotEvents(accountId?: number): Promise<number> {
+  const accountIds =
+    accountId !== undefined ? [accountId] : (await getAccounts()).map((account) => account.id);
+  let copierTotal = 0;
+  let positionTotal = 0;
+
+  for (const id of accountIds) {
+    await deleteCopyTradingEvents(id);
+    await deletePortfolioEvents(id);
+
+    const snapshots = await getAccountSnapshots(id);
+    const copierEvents: CopyTradingEventInput[] = [];
+    const positionEvents: PortfolioEventInput[] = [];
+    for (let i = 0; i < snapshots.length; i++) {
+      const previous = i > 0 ? snapshots[i - 1] : null;
+      copierEvents.push(...diffCopiedTraders(snapshots[i], previous));
+      if (previous) {
+        const changes = diffPositions(previous.positions, snapshots[i].positions);
+        positionEvents.push(...changes.map((change) => toEventInput(snapshots[i], change)));
+      }
+    }
+
+    if (copierEvents.length > 0) {
+      copierTotal += await saveCopyTradingEvents(copierEvents);
+    }
+    if (positionEvents.length > 0) {
+      positionTotal += await savePortfolioEvents(positionEvents);
+    }
+  }
+
+  console.log(
+    `[EVENTS] Rebuilt ${copierTotal} copier and ${positionTotal} position events for ${accountIds.length} account(s)`
+  );
+  return copierTotal + positionTotal;
+}
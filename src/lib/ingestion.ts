@@ -0,0 +1,184 @@
+import { isParseAcceptable } from './parser';
+import { recordSnapshotEvents } from './events';
+import { savePortfolio, saveRejectedMessages, saveTrade } from './db';
+import { classifyTelegramError } from './telegram-errors';
+import { recordRefreshFailure, recordRefreshSuccess } from './refresh-backoff';
+import type { AccountBot } from './accounts';
+import type { TelegramPortfolioClient } from './telegram';
+import type { BotMessage, ParseWarning, TelegramErrorKind } from './types';
+
+export interface AccountRefreshResult {
+  accountId: number;
+  account: string;
+  success: boolean;
+  snapshotId?: number;
+  error?: string;
+  confidence?: number;
+  warnings?: ParseWarning[];
+  // Characters of bot text received
+  responseLength?: number;
+  // What kind of Telegram failure stopped this account, if any
+  errorKind?: TelegramErrorKind;
+  // FLOOD_WAIT asked us to wait this long before trying again
+  retryAfterSeconds?: number;
+}
+
+export interface IngestOptions {
+  // Time the pages were sent; defaults to now
+  timestamp?: Date;
+  // Skip change detection, e.g. during a backfill that rebuilds events afterwards
+  recordEvents?: boolean;
+}
+
+// Lost the Telegram connection or session; the whole run should stop and reconnect
+export function isConnectionError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message.includes('Not connected') || error.message.includes('Not authorized'))
+  );
+}
+
+// Parse, validate and save one set of bot pages, then record what changed.
+// Snapshots the parser isn't confident about are refused, but their pages
+// are archived and become a snapshot if a later re-parse accepts them.
+export async function ingestPages(
+  bot: AccountBot,
+  pages: BotMessage[],
+  options: IngestOptions = {}
+): Promise<AccountRefreshResult> {
+  const { account } = bot;
+  const parsed = bot.adapter.parse(pages, options.timestamp);
+
+  if (!isParseAcceptable(parsed)) {
+    await saveRejectedMessages(account.id, pages, parsed.confidence);
+    console.warn(
+      `[INGEST] Rejected snapshot for ${account.name}, confidence:`,
+      parsed.confidence,
+      parsed.warnings.map((warning) => warning.message)
+    );
+    return {
+      accountId: account.id,
+      account: account.name,
+      success: false,
+      error: 'Bot response could not be parsed reliably',
+      confidence: parsed.confidence,
+      warnings: parsed.warnings,
+    };
+  }
+
+  const snapshotId = await savePortfolio(account.id, parsed, pages);
+
+  if (options.recordEvents !== false) {
+    await recordSnapshotEvents(snapshotId);
+  }
+
+  console.log(`[INGEST] Saved snapshot ID ${snapshotId} for ${account.name}`);
+
+  return {
+    accountId: account.id,
+    account: account.name,
+    success: true,
+    snapshotId,
+    confidence: parsed.confidence,
+    warnings: parsed.warnings,
+  };
+}
+
+// Save the trade in a notification from the account's bot. Returns false
+// for anything that isn't a trade or was already saved.
+export async function ingestTrade(bot: AccountBot, message: BotMessage): Promise<boolean> {
+  const trade = bot.adapter.parseTrade(message);
+  if (!trade) {
+    return false;
+  }
+
+  const saved = await saveTrade(bot.account.id, trade);
+  if (saved) {
+    console.log(
+      `[INGEST] Saved ${trade.action} of ${trade.shares} shares in "${trade.marketQuestion}" for ${bot.account.name}`
+    );
+  }
+  return saved;
+}
+
+// Fetch the account's portfolio from its bot and ingest it. Connection errors
+// are rethrown so the caller can reconnect; anything else fails this account only.
+export async function refreshAccount(
+  client: TelegramPortfolioClient,
+  bot: AccountBot
+): Promise<AccountRefreshResult> {
+  try {
+    const pages = await client.sendPositionsCommand(bot);
+    const responseLength = pages.reduce((total, page) => total + page.text.length, 0);
+    console.log(
+      `[INGEST] Received ${pages.length} page(s) from ${bot.username}, length:`,
+      responseLength
+    );
+
+    return { ...(await ingestPages(bot, pages)), responseLength };
+  } catch (error) {
+    if (isConnectionError(error)) {
+      throw error;
+    }
+    console.error(`[INGEST] Error refreshing ${bot.account.name}:`, error);
+    const classified = classifyTelegramError(error);
+    return {
+      accountId: bot.account.id,
+      account: bot.account.name,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorKind: classified.kind,
+      retryAfterSeconds: classified.waitSeconds,
+    };
+  }
+}
+
+// Feed the run's outcome to the circuit breaker. Any account whose bot answered
+// (even with a reply that didn't parse) means Telegram and the bots are fine.
+async function recordBackoff(results: AccountRefreshResult[]) {
+  const answered = results.some((result) => result.success || result.confidence !== undefined);
+  if (answered) {
+    await recordRefreshSuccess();
+    return;
+  }
+
+  const failure = results.find((result) => result.errorKind === 'flood_wait') ?? results[0];
+  if (failure?.errorKind) {
+    await recordRefreshFailure(failure.errorKind, failure.retryAfterSeconds);
+  }
+}
+
+// Refresh accounts one after another; one failing bot doesn't block the others,
+// but a FLOOD_WAIT applies to the whole Telegram account so the rest are skipped
+export async function refreshAccounts(
+  client: TelegramPortfolioClient,
+  bots: AccountBot[]
+): Promise<AccountRefreshResult[]> {
+  try {
+    await client.ensureConnected();
+
+    const results: AccountRefreshResult[] = [];
+    for (const bot of bots) {
+      const flooded = results.find((result) => result.errorKind === 'flood_wait');
+      if (flooded) {
+        results.push({
+          accountId: bot.account.id,
+          account: bot.account.name,
+          success: false,
+          error: `Skipped: Telegram asked to wait ${flooded.retryAfterSeconds}s`,
+          errorKind: 'flood_wait',
+          retryAfterSeconds: flooded.retryAfterSeconds,
+        });
+        continue;
+      }
+      results.push(await refreshAccount(client, bot));
+    }
+
+    await recordBackoff(results);
+    return results;
+  } catch (error) {
+    const classified = classifyTelegramError(error);
+    await recordRefreshFailure(classified.kind, classified.waitSeconds);
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+import { getLedgerSnapshots, getSnapshotGeneration } from './db';
+import { buildClosedPositions, type LedgerSnapshot } from './ledger';
+import { buildTraderStats } from './traders';
+import type { ClosedPosition, TraderStats } from './types';
+
+// Everything derived from an account's whole snapshot history
+export interface Ledger {
+  snapshots: LedgerSnapshot[];
+  closedPositions: ClosedPosition[];
+  traderStats: TraderStats[];
+}
+
+interface CachedLedgers {
+  generation: number;
+  byAccount: Map<number | 'all', Promise<Ledger>>;
+}
+
+// Kept on globalThis so every route shares it, including across hot reloads
+const globalForLedger = globalThis as unknown as {
+  ledgerCache: CachedLedgers | undefined;
+};
+
+async function buildLedger(accountId?: number): Promise<Ledger> {
+  const snapshots = await getLedgerSnapshots(accountId);
+  return {
+    snapshots,
+    closedPositions: buildClosedPositions(snapshots),
+    traderStats: buildTraderStats(snapshots),
+  };
+}
+
+// The ledger for an account, or every account when undefined. It's built once
+// and reused until a snapshot or position is written. Callers must not
+// mutate what they get back.
+export function getLedger(accountId?: number): Promise<Ledger> {
+  const generation = getSnapshotGeneration();
+  let cache = globalForLedger.ledgerCache;
+  if (!cache || cache.generation !== generation) {
+    cache = { generation, byAccount: new Map() };
+    globalForLedger.ledgerCache = cache;
+  }
+
+  const key = accountId ?? 'all';
+  const cached = cache.byAccount.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const ledger = buildLedger(accountId);
+  cache.byAccount.set(key, ledger);
+  // Don't keep a failed read around
+  const { byAccount } = cache;
+  ledger.catch(() => {
+    if (byAccount.get(key) === ledger) {
+      byAccount.delete(key);
+    }
+  });
+  return ledger;
+}
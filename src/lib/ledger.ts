@@ -0,0 +1,96 @@
+import { isResolved, marketKey, type DiffPosition } from './diff';
+import type {
+  ClosedPosition,
+  ClosedPositionOutcome,
+  PortfolioSnapshot,
+  Position,
+  RealisedPnlPoint,
+} from './types';
+
+export type LedgerPosition = DiffPosition & Pick<Position, 'copiedFrom'>;
+
+export type LedgerSnapshot = Pick<PortfolioSnapshot, 'id' | 'timestamp' | 'accountId'> & {
+  positions: LedgerPosition[];
+};
+
+interface OpenPosition {
+  openedAt: string;
+  lastSeen: LedgerPosition;
+}
+
+function outcomeOf(position: LedgerPosition): ClosedPositionOutcome {
+  if (!isResolved(position)) {
+    return 'closed';
+  }
+  return position.value / position.shares >= 0.5 ? 'won' : 'lost';
+}
+
+function toClosedPosition(
+  accountId: number | null,
+  open: OpenPosition,
+  closedAt: string
+): ClosedPosition {
+  const { lastSeen } = open;
+  const realisedPnl = lastSeen.value - lastSeen.invested;
+  return {
+    accountId,
+    marketId: lastSeen.marketId,
+    marketQuestion: lastSeen.marketQuestion,
+    side: lastSeen.side,
+    copiedFrom: lastSeen.copiedFrom,
+    openedAt: open.openedAt,
+    closedAt,
+    invested: lastSeen.invested,
+    exitValue: lastSeen.value,
+    realisedPnl,
+    returnPct: lastSeen.invested > 0 ? (realisedPnl / lastSeen.invested) * 100 : 0,
+    outcome: outcomeOf(lastSeen),
+    holdingMs: new Date(closedAt).getTime() - new Date(open.openedAt).getTime(),
+  };
+}
+
+// Walk each account's snapshots in order and realise every position at its
+// last seen value once it disappears. A position is a market and side, so a
+// side flip closes one position and opens another. Positions already held at
+// the first snapshot count as opened then. Newest closes come first.
+export function buildClosedPositions(snapshots: LedgerSnapshot[]): ClosedPosition[] {
+  const openByAccount = new Map<number | null, Map<string, OpenPosition>>();
+  const closed: ClosedPosition[] = [];
+
+  for (const snapshot of snapshots) {
+    const open = openByAccount.get(snapshot.accountId) ?? new Map<string, OpenPosition>();
+    openByAccount.set(snapshot.accountId, open);
+
+    const seen = new Set<string>();
+    for (const position of snapshot.positions) {
+      const key = `${marketKey(position)}|${position.side}`;
+      seen.add(key);
+      const existing = open.get(key);
+      if (existing) {
+        existing.lastSeen = position;
+      } else {
+        open.set(key, { openedAt: snapshot.timestamp, lastSeen: position });
+      }
+    }
+
+    for (const [key, position] of open) {
+      if (!seen.has(key)) {
+        closed.push(toClosedPosition(snapshot.accountId, position, snapshot.timestamp));
+        open.delete(key);
+      }
+    }
+  }
+
+  return closed.sort((a, b) => b.closedAt.localeCompare(a.closedAt));
+}
+
+// Running total of realised PnL, one point per close, oldest first
+export function cumulativeRealisedPnl(closed: ClosedPosition[]): RealisedPnlPoint[] {
+  let cumulativePnl = 0;
+  return [...closed]
+    .sort((a, b) => a.closedAt.localeCompare(b.closedAt))
+    .map((position) => {
+      cumulativePnl += position.realisedPnl;
+      return { timestamp: position.closedAt, realisedPnl: position.realisedPnl, cumulativePnl };
+    });
+}
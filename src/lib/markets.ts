@@ -0,0 +1,57 @@
+import { getMarket, getMarketPositions, getSnapshotTimeline } from './db';
+import type { MarketHistory, PositionHistoryPoint, PositionLifecycle } from './types';
+
+// Follow every position held in a market across snapshots. A position is
+// identified by account and side; it closes at the first snapshot of that
+// account where it's missing, and a later reappearance starts a new lifecycle.
+export async function getMarketHistory(marketId: number): Promise<MarketHistory | null> {
+  const market = await getMarket(marketId);
+  if (!market) {
+    return null;
+  }
+
+  const positions = await getMarketPositions(marketId);
+
+  const groups = new Map<string, { accountId: number | null; side: string; points: PositionHistoryPoint[] }>();
+  for (const position of positions) {
+    const key = `${position.accountId}|${position.side}`;
+    const group = groups.get(key) ?? { accountId: position.accountId, side: position.side, points: [] };
+    group.points.push({
+      snapshotId: position.snapshotId,
+      timestamp: position.snapshot.timestamp,
+      entryPrice: position.entryPrice,
+      invested: position.invested,
+      shares: position.shares,
+      value: position.value,
+      pnlUsd: position.pnlUsd,
+      pnlPct: position.pnlPct,
+    });
+    groups.set(key, group);
+  }
+
+  const lifecycles: PositionLifecycle[] = [];
+
+  for (const { accountId, side, points } of groups.values()) {
+    const pointsBySnapshot = new Map(points.map((point) => [point.snapshotId, point]));
+    const timeline = await getSnapshotTimeline(accountId, points[0].timestamp);
+    let current: PositionLifecycle | null = null;
+
+    for (const snapshot of timeline) {
+      const point = pointsBySnapshot.get(snapshot.id);
+      if (point) {
+        if (!current) {
+          current = { accountId, side, openedAt: snapshot.timestamp, closedAt: null, points: [] };
+          lifecycles.push(current);
+        }
+        current.points.push(point);
+      } else if (current) {
+        current.closedAt = snapshot.timestamp;
+        current = null;
+      }
+    }
+  }
+
+  lifecycles.sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+
+  return { market, lifecycles };
+}
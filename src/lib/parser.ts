@@ -1,4 +1,9 @@
-import type { ParsedPortfolio, PortfolioSnapshotInput } from './types';
+import type {
+  BotMessage,
+  ParsedPortfolio,
+  ParseWarning,
+  PortfolioSnapshotInput,
+} from './types';
 
 type PositionParsed = {
   marketQuestion: string;
@@ -11,10 +16,38 @@ type PositionParsed = {
   pnlPct: number;
   expiryTimestamp: string | null;
   copiedFrom: string | null;
+  marketUrl: string | null;
+  traderProfileUrl: string | null;
+  walletAddress: string | null;
 };
 
-export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPortfolio {
-  const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+const WALLET_ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}/;
+export const COPIED_FROM_PATTERN = /copied from|copy trade by|copying/i;
+const SIDE_MARKER_PATTERN = /\?\s*[-–|(\[]?\s*(yes|no|long|short)\s*[)\]]?\s*$/i;
+
+// Snapshots parsed with less confidence than this are not saved
+export const MIN_PARSE_CONFIDENCE = 0.5;
+
+// Position sums may differ from the summary by rounding and price drift
+// between the two; anything beyond this is reported
+const SUM_TOLERANCE_PCT = 2;
+
+interface ParsedPage {
+  snapshot: PortfolioSnapshotInput;
+  positions: PositionParsed[];
+  unrecognisedLines: string[];
+}
+
+export function parsePortfolioResponse(
+  message: BotMessage | string,
+  timestamp?: Date
+): ParsedPortfolio {
+  return parsePortfolioPages([message], timestamp);
+}
+
+function parsePage(message: BotMessage | string, timestamp?: Date): ParsedPage {
+  const text = typeof message === 'string' ? message : message.text;
+  const { lines, lineLinks } = splitLines(message);
 
   const snapshot: PortfolioSnapshotInput = {
     totalBalance: 0,
@@ -28,6 +61,7 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
   };
 
   const positions: PositionParsed[] = [];
+  const unrecognisedLines: string[] = [];
   let currentPosition: Partial<PositionParsed> | null = null;
   let inPositionsSection = false;
 
@@ -85,13 +119,15 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
     }
   }
 
-  // Second pass: Parse positions from first page only
+  // Second pass: Parse positions on this page (stop at the pagination controls)
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
     const lowerLine = line.toLowerCase();
+    const isMarketLine = /^#?\d+\./.test(line) && line.includes('?');
 
-    // Stop parsing if we hit pagination controls or bottom buttons
-    if (inPositionsSection && (
+    // Stop parsing if we hit pagination controls or bottom buttons. Market
+    // questions can contain the same words ("Who will be the next...?").
+    if (inPositionsSection && !isMarketLine && (
       lowerLine.includes('← back') ||
       lowerLine.includes('refresh') ||
       lowerLine.includes('last page') ||
@@ -105,12 +141,17 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
     }
 
     // Detect positions section
-    if (line.match(/^#?\d+\./) && line.includes('?')) {
+    if (isMarketLine) {
       inPositionsSection = true;
     }
 
     // Skip non-market rows
     if (inPositionsSection) {
+      // Profile and polygonscan rows carry the copied trader's links
+      if (currentPosition && (lowerLine.includes('view profile') || lowerLine.includes('polygonscan'))) {
+        captureTraderLinks(currentPosition, line, lineLinks[i]);
+      }
+
       if (
         lowerLine.includes('total balance') ||
         lowerLine.includes('view profile') ||
@@ -139,6 +180,12 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
         let marketText = line.replace(/^#?\d+\.\s*/, '').trim();
         marketText = marketText.replace(/^[✓✔✅]\s*/, '').trim();
 
+        // An explicit side marker may follow the question ("...? - NO", "...? [Yes]")
+        const sideMarker = marketText.match(SIDE_MARKER_PATTERN);
+        if (sideMarker) {
+          marketText = marketText.slice(0, (sideMarker.index ?? 0) + 1).trim();
+        }
+
         currentPosition = {
           marketQuestion: marketText,
           side: 'Yes',
@@ -150,18 +197,17 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
           pnlPct: 0,
           expiryTimestamp: null,
           copiedFrom: null,
+          marketUrl: lineLinks[i].find(isMarketUrl) ?? null,
+          traderProfileUrl: null,
+          walletAddress: null,
         };
 
-        if (lowerLine.includes('no') || lowerLine.includes('short')) {
-          currentPosition.side = 'No';
+        if (sideMarker) {
+          currentPosition.side = normalizeSide(sideMarker[1]);
         }
       } else if (currentPosition) {
         if (lowerLine.includes('side:') || lowerLine.includes('position:')) {
-          if (lowerLine.includes('no') || lowerLine.includes('short')) {
-            currentPosition.side = 'No';
-          } else {
-            currentPosition.side = 'Yes';
-          }
+          currentPosition.side = normalizeSide(line.slice(line.indexOf(':') + 1));
         } else if (lowerLine.includes('entry') || lowerLine.includes('entry price')) {
           currentPosition.entryPrice = extractNumber(line) || 0;
         } else if (lowerLine.includes('invested') && !lowerLine.includes('shares')) {
@@ -171,17 +217,21 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
         } else if (lowerLine.includes('value') && !lowerLine.includes('pnl')) {
           currentPosition.value = extractNumber(line) || 0;
         } else if (lowerLine.includes('pnl') || lowerLine.includes('profit')) {
-          const pnlMatch = line.match(/([+-]?[\d,]+\.?\d*)\s*\$?\s*\(([+-]?[\d,]+\.?\d*)%\)/);
+          // Matches "-$5.00 (-10%)", "-5.00$ (-10%)" and "$-5.00 (-10%)"
+          const pnlMatch = line.match(/([+-]?)\$?([+-]?)([\d,]+\.?\d*)\s*\$?\s*\(([+-]?[\d,]+\.?\d*)%\)/);
           if (pnlMatch) {
-            currentPosition.pnlUsd = parseFloat(pnlMatch[1].replace(/,/g, '') || '0');
-            currentPosition.pnlPct = parseFloat(pnlMatch[2].replace(/,/g, '') || '0');
+            const sign = pnlMatch[1] === '-' || pnlMatch[2] === '-' ? -1 : 1;
+            currentPosition.pnlUsd = sign * parseFloat(pnlMatch[3].replace(/,/g, '') || '0');
+            currentPosition.pnlPct = parseFloat(pnlMatch[4].replace(/,/g, '') || '0');
           } else {
             currentPosition.pnlUsd = extractNumber(line) || 0;
           }
         } else if (lowerLine.includes('expiry') || lowerLine.includes('expires')) {
           currentPosition.expiryTimestamp = extractDate(line) || null;
-        } else if (lowerLine.includes('copied') || lowerLine.includes('from') || lowerLine.includes('copy trade by')) {
-          currentPosition.copiedFrom = extractTextAfter(line, /copied|from|copy trade by/i) || null;
+        } else if (COPIED_FROM_PATTERN.test(line)) {
+          currentPosition.copiedFrom = extractTextAfter(line, COPIED_FROM_PATTERN) || null;
+        } else {
+          unrecognisedLines.push(line);
         }
       }
     }
@@ -192,7 +242,218 @@ export function parsePortfolioResponse(text: string, timestamp?: Date): ParsedPo
     positions.push(currentPosition as PositionParsed);
   }
 
-  return { snapshot, positions };
+  // Some bot layouts link markets from inline keyboard buttons instead of the text
+  if (typeof message !== 'string') {
+    attachButtonMarketUrls(positions, message);
+  }
+
+  return { snapshot, positions, unrecognisedLines };
+}
+
+// Split a message into trimmed, non-empty lines along with the URLs of any
+// link entities that overlap each line
+function splitLines(message: BotMessage | string): { lines: string[]; lineLinks: string[][] } {
+  const text = typeof message === 'string' ? message : message.text;
+  const entities = typeof message === 'string' ? [] : message.entities;
+
+  const lines: string[] = [];
+  const lineLinks: string[][] = [];
+  let offset = 0;
+
+  for (const rawLine of text.split('\n')) {
+    const start = offset;
+    const end = offset + rawLine.length;
+    offset = end + 1;
+
+    // Some bots render negative amounts with a unicode minus sign
+    const line = rawLine.trim().replace(/\u2212/g, '-');
+    if (line.length === 0) {
+      continue;
+    }
+
+    lines.push(line);
+    lineLinks.push(
+      entities
+        .filter((entity) => entity.url && entity.offset < end && entity.offset + entity.length > start)
+        .map((entity) => entity.url as string)
+    );
+  }
+
+  return { lines, lineLinks };
+}
+
+export function isMarketUrl(url: string): boolean {
+  return url.includes('polymarket.com/event') || url.includes('polymarket.com/market');
+}
+
+function captureTraderLinks(position: Partial<PositionParsed>, line: string, links: string[]): void {
+  const lowerLine = line.toLowerCase();
+
+  if (lowerLine.includes('view profile') && links.length > 0 && !position.traderProfileUrl) {
+    position.traderProfileUrl = links[0];
+  }
+
+  if (!position.walletAddress) {
+    const wallet = [line, ...links]
+      .map((candidate) => candidate.match(WALLET_ADDRESS_PATTERN)?.[0])
+      .find((match) => match !== undefined);
+    if (wallet) {
+      position.walletAddress = wallet.toLowerCase();
+    }
+  }
+}
+
+function attachButtonMarketUrls(positions: PositionParsed[], message: BotMessage): void {
+  const marketButtons = message.buttons
+    .flat()
+    .filter((button): button is { text: string; url: string } => !!button.url && isMarketUrl(button.url));
+
+  for (const position of positions) {
+    if (position.marketUrl) continue;
+
+    const question = position.marketQuestion.toLowerCase();
+    const button = marketButtons.find((b) => {
+      const label = b.text.replace(/^#?\d+\.\s*/, '').trim().toLowerCase();
+      return label.length > 0 && (question.startsWith(label) || label.startsWith(question));
+    });
+    if (button) {
+      position.marketUrl = button.url;
+    }
+  }
+}
+
+// Key used to recognise the same market across snapshots: case, spacing,
+// quotes and trailing punctuation vary between bot messages
+export function normalizeMarketQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[‘’“”"'`]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?.!]+$/, '')
+    .trim();
+}
+
+// Merge the pages of a paginated /positions reply into one portfolio. The
+// summary comes from the first page; positions are appended page by page.
+export function parsePortfolioPages(
+  pages: Array<BotMessage | string>,
+  timestamp?: Date
+): ParsedPortfolio {
+  const [first, ...rest] = (pages.length > 0 ? pages : ['']).map((page) => parsePage(page, timestamp));
+  const { snapshot, positions } = first;
+  const unrecognisedLines = [...first.unrecognisedLines];
+  const seen = new Set(positions.map(positionKey));
+
+  for (const page of rest) {
+    if (!snapshot.totalPositions && page.snapshot.totalPositions) {
+      snapshot.totalPositions = page.snapshot.totalPositions;
+    }
+
+    for (const position of page.positions) {
+      const key = positionKey(position);
+      if (!seen.has(key)) {
+        seen.add(key);
+        positions.push(position);
+      }
+    }
+
+    unrecognisedLines.push(...page.unrecognisedLines);
+  }
+
+  const warnings = diagnose(snapshot, positions, unrecognisedLines);
+  const confidence = scoreConfidence(warnings);
+
+  if (warnings.length > 0) {
+    console.log(
+      `[PARSER] ${warnings.length} warning(s), confidence ${confidence.toFixed(2)}:`,
+      warnings.map((w) => w.message)
+    );
+  }
+
+  return { snapshot, positions, warnings, confidence };
+}
+
+// A snapshot missing positions (e.g. pages that never arrived, or a single
+// page of several) is never saved, however confident the rest of the parse:
+// the positions on the missing pages would look closed
+export function isParseAcceptable(parsed: ParsedPortfolio): boolean {
+  return (
+    parsed.confidence >= MIN_PARSE_CONFIDENCE &&
+    !parsed.warnings.some((warning) => warning.code === 'position_count_mismatch')
+  );
+}
+
+function diagnose(
+  snapshot: PortfolioSnapshotInput,
+  positions: PositionParsed[],
+  unrecognisedLines: string[]
+): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+
+  if (snapshot.totalBalance === 0) {
+    warnings.push({ code: 'missing_total_balance', message: 'No total balance found' });
+  }
+
+  if (snapshot.totalPositions && positions.length !== snapshot.totalPositions) {
+    warnings.push({
+      code: 'position_count_mismatch',
+      message: `Parsed ${positions.length} positions, header says Positions(${snapshot.totalPositions})`,
+    });
+  }
+
+  // Only compare sums when every position was captured
+  if (positions.length > 0 && positions.length === snapshot.totalPositions) {
+    const investedSum = positions.reduce((sum, p) => sum + p.invested, 0);
+    const valueSum = positions.reduce((sum, p) => sum + p.value, 0);
+
+    if (snapshot.invested > 0 && !withinTolerance(investedSum, snapshot.invested)) {
+      warnings.push({
+        code: 'position_sum_mismatch',
+        message: `Positions invested sum ${investedSum.toFixed(2)} does not match summary ${snapshot.invested.toFixed(2)}`,
+      });
+    }
+    if (snapshot.value > 0 && !withinTolerance(valueSum, snapshot.value)) {
+      warnings.push({
+        code: 'position_sum_mismatch',
+        message: `Positions value sum ${valueSum.toFixed(2)} does not match summary ${snapshot.value.toFixed(2)}`,
+      });
+    }
+  }
+
+  for (const line of unrecognisedLines) {
+    warnings.push({ code: 'unrecognised_line', message: `Unrecognised line: ${line}`, line });
+  }
+
+  return warnings;
+}
+
+function withinTolerance(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) <= Math.max(1, (expected * SUM_TOLERANCE_PCT) / 100);
+}
+
+// Start from full confidence and subtract per warning. A missing total
+// balance alone is enough to reject the snapshot.
+function scoreConfidence(warnings: ParseWarning[]): number {
+  const penalties: Record<ParseWarning['code'], number> = {
+    missing_total_balance: 0.6,
+    position_count_mismatch: 0.3,
+    position_sum_mismatch: 0.1,
+    unrecognised_line: 0.05,
+  };
+
+  const unrecognisedPenalty = Math.min(
+    0.2,
+    warnings.filter((w) => w.code === 'unrecognised_line').length * penalties.unrecognised_line
+  );
+  const otherPenalty = warnings
+    .filter((w) => w.code !== 'unrecognised_line')
+    .reduce((sum, w) => sum + penalties[w.code], 0);
+
+  return Math.max(0, Math.round((1 - unrecognisedPenalty - otherPenalty) * 100) / 100);
+}
+
+function positionKey(position: PositionParsed): string {
+  return `${position.marketQuestion}|${position.side}`;
 }
 
 function extractNumber(text: string): number | null {
@@ -218,6 +479,10 @@ function extractDate(text: string): string | null {
 }
 
 function extractTextAfter(text: string, pattern: RegExp): string | null {
-  const match = text.match(new RegExp(pattern.source + '\\s*:?\\s*(.+)', 'i'));
+  const match = text.match(new RegExp('(?:' + pattern.source + ')\\s*:?\\s*(.+)', 'i'));
   return match ? match[1].trim() : null;
 }
+
+function normalizeSide(text: string): string {
+  return /\b(no|short)\b/i.test(text) ? 'No' : 'Yes';
+}
@@ -0,0 +1,98 @@
+import { setPassiveListener } from './telegram';
+import { getAccountBots, type AccountBot } from './accounts';
+import { ingestPages, ingestTrade } from './ingestion';
+import { withRefreshLock } from './refresh-lock';
+import { getSchedulerSettings } from './scheduler';
+import type { ConfiguredBot } from './bot-adapters';
+import type { BotMessage } from './types';
+
+interface PushedSnapshot {
+  bot: AccountBot;
+  message: BotMessage;
+  receivedAt: Date;
+}
+
+// Pushed portfolios are saved under the refresh lock, since saving records
+// events that a backfill or re-parse may be rebuilding. While the lock is
+// held they wait here and are tried again shortly.
+const pendingSnapshots: PushedSnapshot[] = [];
+let retryTimer: NodeJS.Timeout | null = null;
+const RETRY_MS = 15 * 1000;
+
+async function savePushedSnapshots(): Promise<void> {
+  const run = await withRefreshLock({ kind: 'pushed' }, async () => {
+    // Drains anything pushed while earlier ones were being saved, too
+    while (pendingSnapshots.length > 0) {
+      const { bot, message, receivedAt } = pendingSnapshots.shift()!;
+      try {
+        const result = await ingestPages(bot, [message], { timestamp: receivedAt });
+        if (result.success) {
+          console.log(
+            `[LISTENER] Saved pushed snapshot ${result.snapshotId} for ${bot.account.name}`
+          );
+        }
+      } catch (error) {
+        console.error(`[LISTENER] Failed to save pushed snapshot for ${bot.account.name}:`, error);
+      }
+    }
+  });
+
+  if (!run.acquired && pendingSnapshots.length > 0 && !retryTimer) {
+    console.log(
+      `[LISTENER] A ${run.heldBy} is running, saving ${pendingSnapshots.length} pushed snapshot(s) after it`
+    );
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      savePushedSnapshots().catch((error) =>
+        console.error('[LISTENER] Failed to save pushed snapshots:', error)
+      );
+    }, RETRY_MS);
+  }
+}
+
+// A trade notification or portfolio message the bot pushed on its own. A
+// portfolio reflects the time it was (last) edited, which for a settled
+// message is about when it arrived.
+async function ingestPushedMessage(bots: AccountBot[], bot: ConfiguredBot, message: BotMessage) {
+  const accountBot = bots.find((candidate) => candidate.username === bot.username);
+  if (!accountBot) {
+    return;
+  }
+
+  if (bot.adapter.parseTrade(message)) {
+    await ingestTrade(accountBot, message);
+    return;
+  }
+
+  // A page of several (e.g. someone paging through the bot on a phone) isn't
+  // the whole portfolio, so only complete single-message portfolios are saved
+  const hasNextPage = message.buttons
+    .flat()
+    .some((button) => bot.adapter.isNextPageButton(button.text));
+  const incomplete = bot.adapter
+    .parse([message])
+    .warnings.some((warning) => warning.code === 'position_count_mismatch');
+  if (hasNextPage || incomplete) {
+    console.log(`[LISTENER] Skipping one page of a paginated portfolio for ${accountBot.account.name}`);
+    return;
+  }
+
+  pendingSnapshots.push({ bot: accountBot, message, receivedAt: new Date() });
+  await savePushedSnapshots();
+}
+
+// Attach or detach the passive listener to match the stored setting. The
+// Telegram client keeps it attached across reconnects.
+export async function syncPassiveListener(): Promise<void> {
+  const settings = await getSchedulerSettings();
+  if (!settings.passiveListening) {
+    await setPassiveListener(null);
+    return;
+  }
+
+  const bots = await getAccountBots();
+  await setPassiveListener({
+    bots,
+    onMessage: (bot, message) => ingestPushedMessage(bots, bot, message),
+  });
+}
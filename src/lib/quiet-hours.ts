@@ -0,0 +1,39 @@
+import type { SchedulerSettings } from './types';
+
+// Quiet hours are HH:MM in the server's local time; the scheduler skips its
+// runs between start and end
+type QuietHours = Pick<SchedulerSettings, 'quietHoursStart' | 'quietHoursEnd'>;
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isInQuietHours(settings: QuietHours, now: Date = new Date()): boolean {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) {
+    return false;
+  }
+
+  const start = minutesOfDay(settings.quietHoursStart);
+  const end = minutesOfDay(settings.quietHoursEnd);
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  // e.g. 23:00-07:00 wraps past midnight
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+// When the most recent quiet period ended, at or before `now`; null without
+// quiet hours
+export function lastQuietHoursEnd(settings: QuietHours, now: Date = new Date()): Date | null {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) {
+    return null;
+  }
+
+  const end = minutesOfDay(settings.quietHoursEnd);
+  const endedAt = new Date(now);
+  endedAt.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (endedAt > now) {
+    endedAt.setDate(endedAt.getDate() - 1);
+  }
+  return endedAt;
+}
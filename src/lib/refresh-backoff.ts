@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getSetting, saveSetting } from './db';
+import type { RefreshPause, TelegramErrorKind } from './types';
+
+// Circuit breaker for refreshes. FLOOD_WAIT pauses for exactly as long as
+// Telegram asks; an unresponsive bot or network trouble opens the breaker
+// after a few failures in a row, pausing for exponentially longer each time.
+// State lives in app_settings so a restart doesn't hammer Telegram again.
+export const BREAKER_THRESHOLD = 3;
+const BREAKER_BASE_PAUSE_MS = 5 * 60 * 1000;
+const BREAKER_MAX_PAUSE_MS = 2 * 60 * 60 * 1000;
+// Margin on top of Telegram's FLOOD_WAIT so the first retry isn't rejected again
+const FLOOD_WAIT_MARGIN_MS = 5 * 1000;
+
+const FAILURES_KEY = 'refresh_consecutive_failures';
+const PAUSE_KEY = 'refresh_pause';
+
+export async function getRefreshPause(): Promise<RefreshPause | null> {
+  const stored = await getSetting(PAUSE_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  const pause = JSON.parse(stored) as RefreshPause;
+  return new Date(pause.until).getTime() > Date.now() ? pause : null;
+}
+
+// A 429 for routes that would talk to Telegram, which would only reject
+// another request until the FLOOD_WAIT is over; null when there's none
+export async function floodWaitResponse(): Promise<NextResponse | null> {
+  const pause = await getRefreshPause();
+  if (pause?.kind !== 'flood_wait') {
+    return null;
+  }
+
+  const retryAfter = Math.ceil((new Date(pause.until).getTime() - Date.now()) / 1000);
+  return NextResponse.json(
+    { success: false, error: `Rate limited by Telegram until ${pause.until}`, pause },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+async function pauseUntil(until: Date, kind: TelegramErrorKind, reason: string) {
+  const pause: RefreshPause = { until: until.toISOString(), kind, reason };
+  await saveSetting(PAUSE_KEY, JSON.stringify(pause));
+  console.warn(`[BACKOFF] Refreshes paused until ${pause.until}: ${reason}`);
+}
+
+// The bot answered (even if the reply didn't parse): close the breaker
+export async function recordRefreshSuccess(): Promise<void> {
+  if ((await getSetting(FAILURES_KEY)) !== '0') {
+    await saveSetting(FAILURES_KEY, '0');
+  }
+  if (await getSetting(PAUSE_KEY)) {
+    await saveSetting(PAUSE_KEY, '');
+  }
+}
+
+export async function recordRefreshFailure(
+  kind: TelegramErrorKind,
+  waitSeconds?: number
+): Promise<void> {
+  if (kind === 'flood_wait') {
+    const seconds = waitSeconds ?? 0;
+    await pauseUntil(
+      new Date(Date.now() + seconds * 1000 + FLOOD_WAIT_MARGIN_MS),
+      kind,
+      `Telegram FLOOD_WAIT of ${seconds}s`
+    );
+    return;
+  }
+
+  // Session problems are fixed by reconnecting or re-authenticating, and
+  // unknown errors aren't a reason to stop trying
+  if (kind !== 'bot_unresponsive' && kind !== 'network') {
+    return;
+  }
+
+  const failures = (Number(await getSetting(FAILURES_KEY)) || 0) + 1;
+  await saveSetting(FAILURES_KEY, String(failures));
+
+  if (failures >= BREAKER_THRESHOLD) {
+    const pauseMs = Math.min(
+      BREAKER_BASE_PAUSE_MS * 2 ** (failures - BREAKER_THRESHOLD),
+      BREAKER_MAX_PAUSE_MS
+    );
+    const what = kind === 'bot_unresponsive' ? 'Bot not responding' : 'Network errors';
+    await pauseUntil(
+      new Date(Date.now() + pauseMs),
+      kind,
+      `${what} (${failures} failures in a row)`
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from 'node:crypto';
+import { acquireLease, releaseLease, renewLease } from './db';
+
+// Everything that talks to the bots' chats or writes snapshots: a refresh
+// sends /positions and reads the reply, a backfill reads the history, a
+// re-parse replaces snapshot contents and rebuilds events, and a portfolio the
+// bot pushed is saved with its events. Two at once pick up each other's
+// replies or race on the same snapshots, so only one runs at a time.
+export interface RefreshJob {
+  kind: 'refresh' | 'historical' | 'reparse' | 'pushed';
+  // Single account, or every enabled account when undefined
+  accountId?: number;
+  // The accounts an every-account run set out to refresh
+  accountIds?: number[];
+}
+
+export type LockedRun<T> =
+  | { acquired: true; shared: boolean; result: T }
+  | { acquired: false; heldBy: string };
+
+// Settles to null when another process held the lease
+type RunOutcome<T> = { result: T } | null;
+
+interface InFlightRun {
+  job: RefreshJob;
+  outcome: Promise<RunOutcome<unknown>>;
+}
+
+const OTHER_PROCESS = 'another server process';
+
+const LEASE_NAME = 'refresh';
+// Renewed while the run is going, so only a dead holder lets it lapse
+const LEASE_TTL_MS = 2 * 60 * 1000;
+const LEASE_RENEW_MS = 30 * 1000;
+
+// Kept on globalThis so hot reload in development sees the run already going
+const globalForLock = globalThis as unknown as {
+  refreshLockHolder: string | undefined;
+  refreshInFlight: InFlightRun | null | undefined;
+};
+
+const holder = (globalForLock.refreshLockHolder ??= `${process.pid}-${randomUUID()}`);
+
+function describe(job: RefreshJob): string {
+  const scope = job.accountId !== undefined ? `account ${job.accountId}` : 'all accounts';
+  switch (job.kind) {
+    case 'historical':
+      return `history backfill (${scope})`;
+    case 'reparse':
+      return `re-parse (${scope})`;
+    case 'pushed':
+      return `save of pushed snapshots (${scope})`;
+    default:
+      return `refresh (${scope})`;
+  }
+}
+
+// A refresh of every account also covers a request for a single one, if
+// that account was among the ones it set out to refresh
+function covers(running: RefreshJob, requested: RefreshJob): boolean {
+  if (running.kind !== 'refresh' || requested.kind !== 'refresh') {
+    return false;
+  }
+  if (running.accountId !== undefined || requested.accountId === undefined) {
+    return running.accountId === requested.accountId;
+  }
+  return running.accountIds?.includes(requested.accountId) ?? false;
+}
+
+// Run `task` while holding the refresh lock. A refresh requested while a
+// covering refresh is in flight waits for that run and shares its result;
+// anything else that finds the lock taken (here or in another process) is
+// turned away rather than queued behind a possibly long backfill.
+export async function withRefreshLock<T>(
+  job: RefreshJob,
+  task: () => Promise<T>
+): Promise<LockedRun<T>> {
+  const inFlight = globalForLock.refreshInFlight;
+  if (inFlight) {
+    if (covers(inFlight.job, job)) {
+      console.log(`[LOCK] Joining in-flight ${describe(inFlight.job)}`);
+      const outcome = (await inFlight.outcome) as RunOutcome<T>;
+      return outcome
+        ? { acquired: true, shared: true, result: outcome.result }
+        : { acquired: false, heldBy: OTHER_PROCESS };
+    }
+    return { acquired: false, heldBy: describe(inFlight.job) };
+  }
+
+  const run = (async (): Promise<RunOutcome<T>> => {
+    if (!(await acquireLease(LEASE_NAME, holder, LEASE_TTL_MS))) {
+      return null;
+    }
+
+    const renewal = setInterval(() => {
+      renewLease(LEASE_NAME, holder, LEASE_TTL_MS).catch((error) =>
+        console.error('[LOCK] Failed to renew refresh lease:', error)
+      );
+    }, LEASE_RENEW_MS);
+
+    try {
+      return { result: await task() };
+    } finally {
+      clearInterval(renewal);
+      await releaseLease(LEASE_NAME, holder);
+    }
+  })();
+
+  globalForLock.refreshInFlight = { job, outcome: run };
+
+  try {
+    const outcome = await run;
+    if (!outcome) {
+      return { acquired: false, heldBy: OTHER_PROCESS };
+    }
+    return { acquired: true, shared: false, result: outcome.result };
+  } finally {
+    globalForLock.refreshInFlight = null;
+  }
+}
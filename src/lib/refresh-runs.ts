@@ -0,0 +1,147 @@
+import {
+  finishRefreshRun,
+  getLastSuccessfulRefreshRun,
+  getLatestSnapshot,
+  getRefreshRuns,
+  startRefreshRun,
+} from './db';
+import { getRefreshPause } from './refresh-backoff';
+import { isInQuietHours, lastQuietHoursEnd } from './quiet-hours';
+import type { AccountRefreshResult } from './ingestion';
+import type {
+  RefreshHealth,
+  RefreshRunOutcome,
+  RefreshTrigger,
+  SchedulerSettings,
+} from './types';
+
+// Consecutive failed runs before the header turns red
+export const FAILING_AFTER_RUNS = 3;
+// Data counts as stale after this many missed refresh intervals
+const STALE_AFTER_INTERVALS = 3;
+
+export interface RefreshRunReport {
+  outcome: Exclude<RefreshRunOutcome, 'running'>;
+  error: string | null;
+  responseLength: number | null;
+  snapshotId: number | null;
+}
+
+// Outcome of refreshing several accounts: partial when only some failed
+export function reportAccountResults(results: AccountRefreshResult[]): RefreshRunReport {
+  const failed = results.filter((result) => !result.success);
+  const snapshotIds = results
+    .map((result) => result.snapshotId)
+    .filter((id): id is number => id !== undefined);
+  const lengths = results
+    .map((result) => result.responseLength)
+    .filter((length): length is number => length !== undefined);
+
+  return {
+    outcome:
+      failed.length === 0 ? 'success' : failed.length === results.length ? 'failed' : 'partial',
+    error:
+      failed.length > 0
+        ? failed.map((result) => `${result.account}: ${result.error}`).join('; ')
+        : null,
+    responseLength: lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) : null,
+    snapshotId: snapshotIds.length > 0 ? snapshotIds[snapshotIds.length - 1] : null,
+  };
+}
+
+// Record `task` in refresh_runs. A task that throws is recorded as failed and
+// the error rethrown.
+export async function recordRefreshRun<T>(
+  trigger: RefreshTrigger,
+  accountId: number | undefined,
+  task: () => Promise<T>,
+  report: (result: T) => RefreshRunReport
+): Promise<T> {
+  const run = await startRefreshRun(trigger, accountId);
+
+  try {
+    const result = await task();
+    await finishRefreshRun(run.id, report(result));
+    return result;
+  } catch (error) {
+    await finishRefreshRun(run.id, {
+      outcome: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      responseLength: null,
+      snapshotId: null,
+    });
+    throw error;
+  }
+}
+
+// A run that failed before it could start (e.g. no Telegram client)
+export async function recordFailedRefreshRun(trigger: RefreshTrigger, error: string) {
+  await recordRefreshRun(
+    trigger,
+    undefined,
+    async () => null,
+    () => ({ outcome: 'failed', error, responseLength: null, snapshotId: null })
+  );
+}
+
+// Whether the data is older than a few refresh intervals. The scheduler
+// doesn't run during quiet hours, so the data is never stale then, and after
+// them it's measured from when they ended.
+export function isRefreshStale(
+  settings: SchedulerSettings,
+  lastSuccessAt: string | null,
+  now: Date = new Date()
+): boolean {
+  if (lastSuccessAt === null || isInQuietHours(settings, now)) {
+    return false;
+  }
+
+  const quietEnd = lastQuietHoursEnd(settings, now)?.getTime() ?? 0;
+  const since = Math.max(new Date(lastSuccessAt).getTime(), quietEnd);
+  const staleAfterMs = settings.refreshIntervalMinutes * STALE_AFTER_INTERVALS * 60 * 1000;
+  return now.getTime() - since > staleAfterMs;
+}
+
+// Staleness is only reported while the scheduler is enabled
+export async function getRefreshHealth(settings: SchedulerSettings): Promise<RefreshHealth> {
+  const [runs, lastSuccess, latest, pause] = await Promise.all([
+    getRefreshRuns(FAILING_AFTER_RUNS * 2),
+    getLastSuccessfulRefreshRun(),
+    getLatestSnapshot(),
+    getRefreshPause(),
+  ]);
+
+  const finished = runs.filter((run) => run.outcome !== 'running');
+  let consecutiveFailures = 0;
+  for (const run of finished) {
+    if (run.outcome !== 'failed') break;
+    consecutiveFailures++;
+  }
+
+  // Snapshots saved before runs were recorded still count as fresh data
+  const successTimes = [lastSuccess?.finishedAt, latest?.timestamp]
+    .filter((time): time is string => !!time)
+    .sort();
+  const lastSuccessAt = successTimes.length > 0 ? successTimes[successTimes.length - 1] : null;
+
+  const isStale = isRefreshStale(settings, lastSuccessAt);
+
+  let status: RefreshHealth['status'] = 'ok';
+  if (pause) {
+    status = 'paused';
+  } else if (consecutiveFailures >= FAILING_AFTER_RUNS) {
+    status = 'failing';
+  } else if (isStale && settings.enabled) {
+    status = 'stale';
+  } else if (lastSuccessAt === null) {
+    status = 'unknown';
+  }
+
+  return {
+    status,
+    consecutiveFailures,
+    lastSuccessAt,
+    lastError: finished.find((run) => run.outcome === 'failed')?.error ?? null,
+    pause,
+  };
+}
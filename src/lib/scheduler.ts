@@ -3,69 +3,114 @@ import {
   initializeTelegramClient,
   setTelegramClient,
 } from './telegram';
-import { parsePortfolioResponse } from './parser';
-import {
-  savePortfolio,
-  getLatestSnapshot,
-  getUniqueTraders,
-  saveCopyTradingEvent,
-} from './db';
+import { getAccountBots } from './accounts';
+import { isConnectionError, refreshAccounts } from './ingestion';
+import { withRefreshLock } from './refresh-lock';
+import { recordFailedRefreshRun, recordRefreshRun, reportAccountResults } from './refresh-runs';
+import { getRefreshPause } from './refresh-backoff';
+import { isInQuietHours } from './quiet-hours';
+import { getSetting, saveSetting } from './db';
+import type {
+  RefreshTrigger,
+  SchedulerRunSummary,
+  SchedulerSettings,
+  SchedulerStatus,
+} from './types';
 
 let refreshInterval: NodeJS.Timeout | null = null;
 let healthCheckInterval: NodeJS.Timeout | null = null;
-let lastKnownTraders: Set<string> = new Set();
-let tradersInitialized = false;
+let nextRunAt: Date | null = null;
+let lastRun: SchedulerRunSummary | null = null;
 
-async function initializeTraders() {
-  if (tradersInitialized) return;
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  enabled: true,
+  refreshIntervalMinutes: 5,
+  healthCheckIntervalMinutes: 2,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  passiveListening: false,
+};
 
-  try {
-    const latestSnapshot = await getLatestSnapshot();
-    if (latestSnapshot) {
-      const traders = await getUniqueTraders(latestSnapshot.id);
-      lastKnownTraders = new Set(traders);
-      console.log('[SCHEDULER] Initialized known traders:', Array.from(lastKnownTraders));
-    }
-    tradersInitialized = true;
-  } catch (error) {
-    console.error('[SCHEDULER] Error initializing traders:', error);
-  }
+// app_settings key for each scheduler setting
+const SETTING_KEYS: Record<keyof SchedulerSettings, string> = {
+  enabled: 'scheduler_enabled',
+  refreshIntervalMinutes: 'scheduler_refresh_interval_minutes',
+  healthCheckIntervalMinutes: 'scheduler_health_check_interval_minutes',
+  quietHoursStart: 'scheduler_quiet_hours_start',
+  quietHoursEnd: 'scheduler_quiet_hours_end',
+  passiveListening: 'scheduler_passive_listening',
+};
+
+export async function getSchedulerSettings(): Promise<SchedulerSettings> {
+  const [enabled, refreshMinutes, healthCheckMinutes, quietStart, quietEnd, passiveListening] =
+    await Promise.all([
+      getSetting(SETTING_KEYS.enabled),
+      getSetting(SETTING_KEYS.refreshIntervalMinutes),
+      getSetting(SETTING_KEYS.healthCheckIntervalMinutes),
+      getSetting(SETTING_KEYS.quietHoursStart),
+      getSetting(SETTING_KEYS.quietHoursEnd),
+      getSetting(SETTING_KEYS.passiveListening),
+    ]);
+
+  return {
+    enabled: enabled !== null ? enabled === 'true' : DEFAULT_SCHEDULER_SETTINGS.enabled,
+    refreshIntervalMinutes:
+      Number(refreshMinutes) || DEFAULT_SCHEDULER_SETTINGS.refreshIntervalMinutes,
+    healthCheckIntervalMinutes:
+      Number(healthCheckMinutes) || DEFAULT_SCHEDULER_SETTINGS.healthCheckIntervalMinutes,
+    quietHoursStart: quietStart || null,
+    quietHoursEnd: quietEnd || null,
+    passiveListening: passiveListening === 'true',
+  };
 }
 
-async function detectCopyTradingChanges(snapshotId: number) {
-  const currentTraders = await getUniqueTraders(snapshotId);
-  const currentSet = new Set(currentTraders);
-
-  // Find added traders
-  for (const trader of currentTraders) {
-    if (!lastKnownTraders.has(trader)) {
-      console.log(`[SCHEDULER] New trader detected: ${trader}`);
-      await saveCopyTradingEvent({
-        timestamp: new Date().toISOString(),
-        eventType: 'copier_added',
-        description: `Started copying ${trader}`,
-        traderName: trader,
-      });
+export async function saveSchedulerSettings(
+  settings: Partial<SchedulerSettings>
+): Promise<SchedulerSettings> {
+  for (const [key, value] of Object.entries(settings) as Array<
+    [keyof SchedulerSettings, SchedulerSettings[keyof SchedulerSettings]]
+  >) {
+    if (value !== undefined) {
+      await saveSetting(SETTING_KEYS[key], value === null ? '' : String(value));
     }
   }
+  return getSchedulerSettings();
+}
 
-  // Find removed traders
-  for (const trader of lastKnownTraders) {
-    if (!currentSet.has(trader)) {
-      console.log(`[SCHEDULER] Trader removed: ${trader}`);
-      await saveCopyTradingEvent({
-        timestamp: new Date().toISOString(),
-        eventType: 'copier_removed',
-        description: `Stopped copying ${trader}`,
-        traderName: trader,
-      });
-    }
+function finishRun(
+  startedAt: Date,
+  status: SchedulerRunSummary['status'],
+  error: string | null = null
+): SchedulerRunSummary {
+  lastRun = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    status,
+    error,
+  };
+  return lastRun;
+}
+
+// Scheduled runs skip quiet hours and any backoff pause. A manual run-now
+// ignores both, except a FLOOD_WAIT, which Telegram would only reject again.
+async function autoRefresh(trigger: RefreshTrigger = 'scheduler'): Promise<SchedulerRunSummary> {
+  const startedAt = new Date();
+
+  if (trigger === 'scheduler' && isInQuietHours(await getSchedulerSettings())) {
+    console.log('[AUTO-REFRESH] Quiet hours, skipping refresh');
+    return finishRun(startedAt, 'skipped');
   }
 
-  lastKnownTraders = currentSet;
-}
+  const pause = await getRefreshPause();
+  if (pause && (trigger === 'scheduler' || pause.kind === 'flood_wait')) {
+    console.log(`[AUTO-REFRESH] Paused until ${pause.until}, skipping refresh`);
+    return finishRun(
+      startedAt,
+      'skipped',
+      `Paused until ${new Date(pause.until).toLocaleString()} (${pause.reason})`
+    );
+  }
 
-async function autoRefresh() {
   console.log('[AUTO-REFRESH] Running auto-refresh...');
 
   try {
@@ -77,47 +122,60 @@ async function autoRefresh() {
       client = await initializeTelegramClient();
       if (!client) {
         console.log('[AUTO-REFRESH] Could not initialize client, skipping refresh');
-        return;
+        await recordFailedRefreshRun(trigger, 'Telegram client not connected');
+        return finishRun(startedAt, 'failed', 'Telegram client not connected');
       }
     }
 
-    // Initialize traders if not done
-    await initializeTraders();
-
-    // Ensure connection
-    await client.ensureConnected();
+    const bots = await getAccountBots();
+    if (bots.length === 0) {
+      console.log('[AUTO-REFRESH] No accounts configured, skipping refresh');
+      return finishRun(startedAt, 'skipped', 'No accounts configured');
+    }
 
-    // Get portfolio
-    const responseText = await client.sendPositionsCommand();
-    console.log(
-      '[AUTO-REFRESH] Received response, length:',
-      responseText.length
+    const telegram = client;
+    const accountIds = bots.map((bot) => bot.account.id);
+    const run = await withRefreshLock({ kind: 'refresh', accountIds }, () =>
+      recordRefreshRun(
+        trigger,
+        undefined,
+        () => refreshAccounts(telegram, bots),
+        reportAccountResults
+      )
     );
+    if (!run.acquired) {
+      console.log(`[AUTO-REFRESH] Skipping, a ${run.heldBy} is already running`);
+      return finishRun(startedAt, 'skipped', `A ${run.heldBy} is already running`);
+    }
 
-    // Parse and save
-    const { snapshot, positions } = parsePortfolioResponse(responseText);
-    const snapshotId = await savePortfolio(snapshot, positions);
-
-    // Detect copy-trading changes
-    await detectCopyTradingChanges(snapshotId);
+    const saved = run.result.filter((result) => result.success).length;
+    console.log(`[AUTO-REFRESH] Refreshed ${saved} of ${run.result.length} account(s)`);
 
-    console.log('[AUTO-REFRESH] Successfully saved snapshot ID:', snapshotId);
+    const report = reportAccountResults(run.result);
+    return finishRun(startedAt, report.outcome, report.error);
   } catch (error) {
     console.error('[AUTO-REFRESH] Error:', error);
 
     // Try to reconnect on connection errors
-    if (
-      error instanceof Error &&
-      (error.message.includes('Not connected') ||
-        error.message.includes('Not authorized'))
-    ) {
+    if (isConnectionError(error)) {
       console.log('[AUTO-REFRESH] Attempting to reconnect...');
       setTelegramClient(null);
       await initializeTelegramClient();
     }
+
+    return finishRun(
+      startedAt,
+      'failed',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
   }
 }
 
+async function scheduledRefresh(intervalMs: number) {
+  nextRunAt = new Date(Date.now() + intervalMs);
+  await autoRefresh();
+}
+
 async function healthCheck() {
   const client = getTelegramClient();
 
@@ -136,22 +194,36 @@ async function healthCheck() {
   }
 }
 
-export function startScheduler() {
-  console.log('[SCHEDULER] Starting scheduler...');
-
+// Start (or restart) the scheduler with the stored settings. Does nothing
+// beyond stopping it when the scheduler is disabled. Refreshes straight away
+// unless `refreshNow` is false, e.g. when only the settings changed.
+export async function startScheduler({ refreshNow = true } = {}): Promise<void> {
   // Stop any existing intervals
   stopScheduler();
 
-  // Run initial refresh
-  autoRefresh();
+  const settings = await getSchedulerSettings();
+  if (!settings.enabled) {
+    console.log('[SCHEDULER] Scheduler disabled in settings');
+    return;
+  }
+
+  console.log('[SCHEDULER] Starting scheduler...');
+  const refreshMs = settings.refreshIntervalMinutes * 60 * 1000;
+  const healthCheckMs = settings.healthCheckIntervalMinutes * 60 * 1000;
+
+  if (refreshNow) {
+    scheduledRefresh(refreshMs);
+  } else {
+    nextRunAt = new Date(Date.now() + refreshMs);
+  }
 
-  // Auto-refresh every 5 minutes
-  refreshInterval = setInterval(autoRefresh, 5 * 60 * 1000);
-  console.log('[SCHEDULER] Auto-refresh scheduled every 5 minutes');
+  refreshInterval = setInterval(() => scheduledRefresh(refreshMs), refreshMs);
+  console.log(`[SCHEDULER] Auto-refresh scheduled every ${settings.refreshIntervalMinutes} minutes`);
 
-  // Health check every 2 minutes
-  healthCheckInterval = setInterval(healthCheck, 2 * 60 * 1000);
-  console.log('[SCHEDULER] Health check scheduled every 2 minutes');
+  healthCheckInterval = setInterval(healthCheck, healthCheckMs);
+  console.log(
+    `[SCHEDULER] Health check scheduled every ${settings.healthCheckIntervalMinutes} minutes`
+  );
 }
 
 export function stopScheduler() {
@@ -163,9 +235,26 @@ export function stopScheduler() {
     clearInterval(healthCheckInterval);
     healthCheckInterval = null;
   }
+  nextRunAt = null;
   console.log('[SCHEDULER] Scheduler stopped');
 }
 
 export function isSchedulerRunning(): boolean {
   return refreshInterval !== null;
 }
+
+// Refresh immediately, even during quiet hours or while the scheduler is stopped
+export async function runSchedulerNow(): Promise<SchedulerRunSummary> {
+  return autoRefresh('manual');
+}
+
+export async function getSchedulerStatus(): Promise<SchedulerStatus> {
+  const [settings, pause] = await Promise.all([getSchedulerSettings(), getRefreshPause()]);
+  return {
+    running: isSchedulerRunning(),
+    inQuietHours: isInQuietHours(settings),
+    nextRunAt: nextRunAt?.toISOString() ?? null,
+    lastRun,
+    pause,
+  };
+}
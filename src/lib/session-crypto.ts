@@ -0,0 +1,131 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+// Telegram session strings are stored encrypted with AES-256-GCM under a key
+// from SESSION_ENCRYPTION_KEY. To rotate, move the old key to
+// SESSION_ENCRYPTION_OLD_KEYS (comma-separated) and set a new one; stored
+// sessions are re-encrypted with the new key on the next start.
+//
+// Stored format: enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>, base64 parts.
+// The key id (a hash prefix) picks the right key without trial decryption.
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+export interface SessionKeys {
+  current: Buffer;
+  previous: Buffer[];
+}
+
+// Keys are 32 bytes, given as 64 hex characters or base64
+// (e.g. `openssl rand -base64 32`)
+function parseKey(value: string, name: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  if (key.length !== KEY_BYTES) {
+    throw new Error(
+      `${name} must be ${KEY_BYTES} bytes as hex or base64, e.g. from \`openssl rand -base64 32\``
+    );
+  }
+  return key;
+}
+
+// Null when no key is configured
+export function getSessionKeys(
+  env: Record<string, string | undefined> = process.env
+): SessionKeys | null {
+  if (!env.SESSION_ENCRYPTION_KEY) {
+    return null;
+  }
+
+  return {
+    current: parseKey(env.SESSION_ENCRYPTION_KEY, 'SESSION_ENCRYPTION_KEY'),
+    previous: (env.SESSION_ENCRYPTION_OLD_KEYS ?? '')
+      .split(',')
+      .filter((value) => value.trim().length > 0)
+      .map((value) => parseKey(value, 'SESSION_ENCRYPTION_OLD_KEYS')),
+  };
+}
+
+function keyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+export function isEncryptedSession(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+// Whether the value is encrypted with the current key, i.e. needs no migration
+export function isCurrentlyEncrypted(stored: string, keys: SessionKeys): boolean {
+  return isEncryptedSession(stored) && stored.split(':')[2] === keyId(keys.current);
+}
+
+export function encryptSession(plaintext: string, keys: SessionKeys): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, keys.current, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return (
+    PREFIX +
+    [keyId(keys.current), iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+      .join(':')
+  );
+}
+
+// Storing sessions unencrypted, e.g. for local development, has to be asked
+// for with ALLOW_PLAINTEXT_SESSIONS=true
+export function allowsPlaintextSessions(
+  env: Record<string, string | undefined> = process.env
+): boolean {
+  return env.ALLOW_PLAINTEXT_SESSIONS === 'true';
+}
+
+// The value to store for a session: encrypted under the current key, or as is
+// when there's no key and plaintext storage was allowed. Refuses otherwise.
+export function sealSession(
+  plaintext: string,
+  keys: SessionKeys | null,
+  env: Record<string, string | undefined> = process.env
+): string {
+  if (keys) {
+    return encryptSession(plaintext, keys);
+  }
+  if (!allowsPlaintextSessions(env)) {
+    throw new Error(
+      'SESSION_ENCRYPTION_KEY is not set, so the Telegram session would be stored unencrypted. ' +
+        'Set a key, or ALLOW_PLAINTEXT_SESSIONS=true to store it in plaintext.'
+    );
+  }
+  return plaintext;
+}
+
+// Decrypt with whichever configured key the value was encrypted under.
+// Plaintext values (saved before encryption was set up) are returned as is.
+export function decryptSession(stored: string, keys: SessionKeys | null): string {
+  if (!isEncryptedSession(stored)) {
+    return stored;
+  }
+  if (!keys) {
+    throw new Error('Telegram session is encrypted but SESSION_ENCRYPTION_KEY is not set');
+  }
+
+  const [id, iv, tag, ciphertext] = stored.slice(PREFIX.length).split(':');
+  const key = [keys.current, ...keys.previous].find((candidate) => keyId(candidate) === id);
+  if (!key) {
+    throw new Error(
+      'Telegram session was encrypted with a key that is no longer configured. ' +
+        'Add it to SESSION_ENCRYPTION_OLD_KEYS or log in again.'
+    );
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,90 @@
+import type { TelegramErrorKind } from './types';
+
+export interface ClassifiedTelegramError {
+  kind: TelegramErrorKind;
+  message: string;
+  // Seconds Telegram asked us to wait (flood_wait only)
+  waitSeconds?: number;
+}
+
+export const BOT_UNRESPONSIVE_MESSAGE = 'Timeout waiting for bot response';
+
+// Telegram's flood error when it doesn't say how long to wait
+const DEFAULT_FLOOD_WAIT_SECONDS = 300;
+
+const NETWORK_PATTERNS = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'Not connected',
+  'Connection closed',
+  'disconnected',
+  'socket hang up',
+];
+
+const AUTH_PATTERNS = [
+  'Not authorized',
+  'AUTH_KEY_UNREGISTERED',
+  'AUTH_KEY_DUPLICATED',
+  'SESSION_REVOKED',
+  'SESSION_EXPIRED',
+  'USER_DEACTIVATED',
+];
+
+interface TelegramErrorFields {
+  message?: string;
+  errorMessage?: string;
+  code?: number | string;
+  seconds?: number;
+  cause?: unknown;
+}
+
+// Walk the error and its causes (our wrappers keep the original as `cause`)
+function errorChain(error: unknown): TelegramErrorFields[] {
+  const chain: TelegramErrorFields[] = [];
+  let current: unknown = error;
+  while (current && typeof current === 'object' && chain.length < 5) {
+    chain.push(current as TelegramErrorFields);
+    current = (current as TelegramErrorFields).cause;
+  }
+  return chain;
+}
+
+export function classifyTelegramError(error: unknown): ClassifiedTelegramError {
+  const message = error instanceof Error ? error.message : String(error);
+  const chain = errorChain(error);
+
+  // Wrappers repeat the original message, so prefer the link carrying the wait
+  const floods = chain.filter(
+    (link) =>
+      link.code === 420 || `${link.errorMessage ?? ''} ${link.message ?? ''}`.includes('FLOOD')
+  );
+  if (floods.length > 0) {
+    return {
+      kind: 'flood_wait',
+      message,
+      waitSeconds:
+        floods.find((link) => link.seconds !== undefined)?.seconds ?? DEFAULT_FLOOD_WAIT_SECONDS,
+    };
+  }
+
+  const texts = chain.map(
+    (link) => `${link.errorMessage ?? ''} ${link.message ?? ''} ${link.code ?? ''}`
+  );
+  const matches = (patterns: string[]) =>
+    texts.some((text) => patterns.some((pattern) => text.includes(pattern)));
+
+  if (matches(AUTH_PATTERNS)) {
+    return { kind: 'auth', message };
+  }
+  if (matches([BOT_UNRESPONSIVE_MESSAGE])) {
+    return { kind: 'bot_unresponsive', message };
+  }
+  if (matches(NETWORK_PATTERNS)) {
+    return { kind: 'network', message };
+  }
+  return { kind: 'other', message };
+}
@@ -0,0 +1,88 @@
+import {
+  deleteTelegramSession,
+  getTelegramSessionCreatedAt,
+  hasTelegramSession,
+  saveTelegramSession,
+} from './db';
+import { getTelegramClient, initializeTelegramClient, setTelegramClient } from './telegram';
+import type { TelegramSessionInfo, TelegramUser } from './types';
+
+// Where the session the client runs on comes from: the database, falling
+// back to TELEGRAM_SESSION like initializeTelegramClient does
+export async function getTelegramSessionSource(): Promise<TelegramSessionInfo['source']> {
+  if (await hasTelegramSession()) {
+    return 'database';
+  }
+  return process.env.TELEGRAM_SESSION ? 'environment' : null;
+}
+
+// Session health for the session page. Asks Telegram who we're logged in
+// as, which doubles as a check that the session still works.
+export async function getTelegramSessionInfo(): Promise<TelegramSessionInfo> {
+  const source = await getTelegramSessionSource();
+  const client = getTelegramClient();
+
+  let user: TelegramUser | null = null;
+  let error: string | null = null;
+  if (client) {
+    try {
+      user = await client.getMe();
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  } else if (source) {
+    error = 'The session could not be loaded or connected. Check the server logs.';
+  }
+
+  return {
+    source,
+    connected: user !== null,
+    user,
+    createdAt: source === 'database' ? await getTelegramSessionCreatedAt() : null,
+    lastSuccessfulCallAt: client?.getLastSuccessfulCallAt()?.toISOString() ?? null,
+    error,
+  };
+}
+
+// Switch to the session from a completed login. The current client keeps
+// serving until the new one has connected, then is swapped out and
+// disconnected (its authorization is left alone; log out to revoke it).
+export async function linkTelegramSession(sessionString: string): Promise<void> {
+  if (!(await saveTelegramSession(sessionString))) {
+    throw new Error('Failed to save Telegram session');
+  }
+
+  const previous = getTelegramClient();
+  const client = await initializeTelegramClient();
+  if (!client) {
+    throw new Error('Logged in, but could not connect with the new session');
+  }
+
+  if (previous && previous !== client) {
+    previous.disconnect().catch((error) => {
+      console.error('[TELEGRAM] Failed to disconnect replaced client:', error);
+    });
+  }
+}
+
+// Revoke the session with Telegram and forget it. The stored session is
+// deleted even if revoking fails, e.g. because it was already revoked.
+export async function logOutTelegramSession(): Promise<{ revoked: boolean }> {
+  const client = getTelegramClient() ?? (await initializeTelegramClient());
+  setTelegramClient(null);
+
+  let revoked = false;
+  if (client) {
+    try {
+      await client.logOut();
+      revoked = true;
+    } catch (error) {
+      console.error('[TELEGRAM] Failed to revoke session:', error);
+    }
+  }
+
+  await deleteTelegramSession();
+  delete process.env.TELEGRAM_SESSION;
+  console.log(`[TELEGRAM] Logged out${revoked ? '' : ' (session was not revoked)'}`);
+  return { revoked };
+}
@@ -1,25 +1,120 @@
-import { TelegramClient } from 'telegram';
+import { Api, TelegramClient } from 'telegram';
+import type { Entity } from 'telegram/define';
+import { NewMessage, type NewMessageEvent } from 'telegram/events';
+import { EditedMessage, type EditedMessageEvent } from 'telegram/events/EditedMessage';
 import { StringSession } from 'telegram/sessions';
+import type { MessageButton } from 'telegram/tl/custom/messageButton';
 import { getTelegramSession } from './db';
+import { decryptSession, getSessionKeys } from './session-crypto';
+import { BotReplyWatcher } from './bot-replies';
+import { BOT_UNRESPONSIVE_MESSAGE } from './telegram-errors';
+import type { BotAdapter, ConfiguredBot } from './bot-adapters';
+import type { BotMessage, BotMessageEntity, TelegramUser } from './types';
+
+// Upper bound on pages followed per /positions request, in case the bot's
+// pagination ever loops
+const MAX_POSITION_PAGES = 20;
+
+// How long to wait for the bot to answer the command, and each page after
+// pressing Next
+const REPLY_TIMEOUT_MS = 30000;
+const NEXT_PAGE_TIMEOUT_MS = 15000;
+
+// Passive listening waits this long after a bot message's last edit before
+// handing it on, so "Loading..." placeholders have been replaced
+const LISTEN_SETTLE_MS = 2000;
+
+// gramjs sleeps through shorter FLOOD_WAITs itself; longer ones are thrown so
+// the scheduler can pause instead of blocking a refresh for minutes
+const FLOOD_SLEEP_THRESHOLD_SECONDS = 10;
+
+function findNextPageButton(message: Api.Message, adapter: BotAdapter): MessageButton | null {
+  for (const row of message.buttons ?? []) {
+    for (const button of row) {
+      if (adapter.isNextPageButton(button.text)) {
+        return button;
+      }
+    }
+  }
+  return null;
+}
+
+function toBotMessageEntity(text: string, entity: Api.TypeMessageEntity): BotMessageEntity {
+  let url: string | null = null;
+  if (entity instanceof Api.MessageEntityTextUrl) {
+    url = entity.url;
+  } else if (entity instanceof Api.MessageEntityUrl) {
+    url = text.substring(entity.offset, entity.offset + entity.length);
+  }
+
+  return {
+    type: entity.className.replace(/^MessageEntity/, '').toLowerCase(),
+    offset: entity.offset,
+    length: entity.length,
+    url,
+  };
+}
+
+// Capture everything the parser may need from a message, not just its text
+export function toBotMessage(message: Api.Message): BotMessage {
+  const text = message.message ?? '';
+
+  return {
+    id: message.id,
+    date: message.date ? new Date(message.date * 1000) : new Date(),
+    text,
+    entities: (message.entities ?? []).map((entity) => toBotMessageEntity(text, entity)),
+    buttons: (message.buttons ?? []).map((row) =>
+      row.map((button) => ({ text: button.text, url: button.url ?? null }))
+    ),
+  };
+}
+
+// Receives portfolio messages and trade notifications bots post without us
+// asking, e.g. when the bot is used from a phone
+export interface PassiveListener {
+  bots: ConfiguredBot[];
+  onMessage: (bot: ConfiguredBot, message: BotMessage) => Promise<void>;
+}
+
+interface ActivePassiveListener {
+  listener: PassiveListener;
+  // Bot entity id -> bot
+  bots: Map<string, ConfiguredBot>;
+  newMessages: NewMessage;
+  editedMessages: EditedMessage;
+  onUpdate: (event: NewMessageEvent | EditedMessageEvent) => void;
+  // Message id -> pending settle timer
+  settling: Map<number, NodeJS.Timeout>;
+}
+
+// A /positions command waiting on its reply, and the ids of the messages
+// collected as its pages
+interface CommandInFlight {
+  pageIds: Set<number>;
+  done: Promise<void>;
+}
 
 export class TelegramPortfolioClient {
   private client: TelegramClient;
-  private targetBotUsername: string;
-
-  constructor(
-    apiId: number,
-    apiHash: string,
-    sessionString: string,
-    targetBotUsername: string
-  ) {
+  private passive: ActivePassiveListener | null = null;
+  // Bot entity id -> the /positions command in flight, and the pages of the
+  // last one that finished (later edits of them can still settle), so passive
+  // listening doesn't ingest our own refreshes twice
+  private commandsInFlight = new Map<string, CommandInFlight>();
+  private lastCommandPageIds = new Map<string, Set<number>>();
+  // When a connect, refresh or history fetch last went through, for the
+  // session page
+  private lastSuccessfulCallAt: Date | null = null;
+
+  constructor(apiId: number, apiHash: string, sessionString: string) {
     const session = new StringSession(sessionString);
     this.client = new TelegramClient(session, apiId, apiHash, {
       connectionRetries: 5,
       requestRetries: 5,
-      floodSleepThreshold: 60,
+      floodSleepThreshold: FLOOD_SLEEP_THRESHOLD_SECONDS,
       retryDelay: 2000,
     });
-    this.targetBotUsername = targetBotUsername;
   }
 
   async connect(): Promise<void> {
@@ -38,6 +133,7 @@ export class TelegramPortfolioClient {
     if (!(await this.client.checkAuthorization())) {
       throw new Error('Not authorized. Please authenticate first.');
     }
+    this.lastSuccessfulCallAt = new Date();
   }
 
   async ensureConnected(): Promise<void> {
@@ -52,73 +148,226 @@ export class TelegramPortfolioClient {
     await this.connect();
   }
 
-  async sendPositionsCommand(): Promise<string> {
+  async sendPositionsCommand(bot: ConfiguredBot): Promise<BotMessage[]> {
     await this.ensureConnected();
 
     try {
-      const entity = await this.client.getEntity(this.targetBotUsername);
+      const entity = await this.client.getEntity(bot.username);
+      const botId = entity.id.toString();
 
-      const messagesBefore = await this.client.getMessages(entity, { limit: 1 });
-      const lastMessageId = messagesBefore.length > 0 ? messagesBefore[0].id : 0;
+      // Listen before sending so a fast reply isn't missed
+      const watcher = new BotReplyWatcher(this.client, entity.id.toString(), (message) =>
+        bot.adapter.isPendingMessage(toBotMessage(message))
+      );
+      watcher.start();
+      let finish = () => {};
+      const inFlight: CommandInFlight = {
+        pageIds: new Set(),
+        done: new Promise((resolve) => (finish = resolve)),
+      };
+      this.commandsInFlight.set(botId, inFlight);
 
-      await this.client.sendMessage(entity, {
-        message: '/positions',
-      });
+      try {
+        const command = await this.client.sendMessage(entity, {
+          message: bot.adapter.positionsCommand,
+        });
 
-      const startTime = Date.now();
-      const timeout = 30000;
-      const seenMessageIds = new Set<number>();
+        // The reply is whatever the bot sends after our command
+        const firstPage = await this.waitForBotMessage(
+          watcher,
+          entity,
+          command.id + 1,
+          new Set(),
+          REPLY_TIMEOUT_MS
+        );
+        if (!firstPage) {
+          throw new Error(BOT_UNRESPONSIVE_MESSAGE);
+        }
 
-      while (Date.now() - startTime < timeout) {
-        const messages = await this.client.getMessages(entity, {
-          limit: 10,
-        });
+        const pages = await this.collectPages(bot, watcher, entity, firstPage, inFlight.pageIds);
+        this.lastSuccessfulCallAt = new Date();
+        return pages;
+      } finally {
+        watcher.stop();
+        this.commandsInFlight.delete(botId);
+        this.lastCommandPageIds.set(botId, inFlight.pageIds);
+        finish();
+      }
+    } catch (error) {
+      console.error('[TELEGRAM] Error in sendPositionsCommand:', error);
+      throw new Error(
+        `Failed to get positions: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
 
-        for (const message of messages) {
-          if (
-            message.id > lastMessageId &&
-            message.senderId &&
-            message.senderId.toString() === entity.id.toString() &&
-            message.message &&
-            !seenMessageIds.has(message.id)
-          ) {
-            seenMessageIds.add(message.id);
-            const msgText = message.message;
-
-            if (
-              msgText.includes('Loading') ||
-              msgText.includes('loading') ||
-              msgText.length < 50
-            ) {
-              continue;
-            }
+  // Wait for the bot's settled reply. If no update arrived at all (e.g. the
+  // update loop dropped out), check the chat once before giving up.
+  private async waitForBotMessage(
+    watcher: BotReplyWatcher,
+    entity: Entity,
+    minMessageId: number,
+    seenTexts: Set<string>,
+    timeout: number
+  ): Promise<Api.Message | null> {
+    const reply = await watcher.waitForReply(minMessageId, seenTexts, timeout);
+    if (reply) {
+      return reply;
+    }
 
-            return msgText;
-          }
-        }
+    const messages = await this.client.getMessages(entity, { limit: 10 });
+    return (
+      messages.find(
+        (message) =>
+          message.id >= minMessageId &&
+          message.senderId?.toString() === entity.id.toString() &&
+          message.message &&
+          !seenTexts.has(message.message)
+      ) ?? null
+    );
+  }
+
+  // Follow the bot's inline "Next" button until the last page, returning
+  // every page in order. The bot either edits the page in place or sends a
+  // new message, so both count as the next page.
+  private async collectPages(
+    bot: ConfiguredBot,
+    watcher: BotReplyWatcher,
+    entity: Entity,
+    firstPage: Api.Message,
+    pageIds: Set<number>
+  ): Promise<BotMessage[]> {
+    const pages = [toBotMessage(firstPage)];
+    pageIds.add(firstPage.id);
+    const seenTexts = new Set([firstPage.message]);
+    let current = firstPage;
+
+    while (pages.length < MAX_POSITION_PAGES) {
+      const nextButton = findNextPageButton(current, bot.adapter);
+      if (!nextButton) {
+        break;
+      }
+
+      await nextButton.click({});
 
-        await new Promise((resolve) => setTimeout(resolve, 1500));
+      const nextPage = await this.waitForBotMessage(
+        watcher,
+        entity,
+        current.id,
+        seenTexts,
+        NEXT_PAGE_TIMEOUT_MS
+      );
+      if (!nextPage) {
+        console.log('[TELEGRAM] No response after pressing Next, stopping at page', pages.length);
+        break;
       }
 
-      const allMessages = await this.client.getMessages(entity, { limit: 10 });
-      for (const message of allMessages) {
+      pages.push(toBotMessage(nextPage));
+      pageIds.add(nextPage.id);
+      seenTexts.add(nextPage.message);
+      current = nextPage;
+    }
+
+    if (pages.length > 1) {
+      console.log(`[TELEGRAM] Collected ${pages.length} position pages`);
+    }
+
+    return pages;
+  }
+
+  // Hand every settled portfolio message and trade notification from the
+  // listener's bots to it, new or edited, except the pages of our own
+  // /positions commands. Replaces any listener already attached.
+  async startListening(listener: PassiveListener): Promise<void> {
+    this.stopListening();
+
+    const bots = new Map<string, ConfiguredBot>();
+    for (const bot of listener.bots) {
+      const entity = await this.client.getEntity(bot.username);
+      bots.set(entity.id.toString(), bot);
+    }
+
+    const passive: ActivePassiveListener = {
+      listener,
+      bots,
+      newMessages: new NewMessage({ incoming: true }),
+      editedMessages: new EditedMessage({ incoming: true }),
+      onUpdate: (event) => this.onPassiveMessage(passive, event.message),
+      settling: new Map(),
+    };
+
+    this.client.addEventHandler(passive.onUpdate, passive.newMessages);
+    this.client.addEventHandler(passive.onUpdate, passive.editedMessages);
+    this.passive = passive;
+    console.log(`[TELEGRAM] Listening for portfolio messages from ${bots.size} bot(s)`);
+  }
+
+  stopListening(): void {
+    const passive = this.passive;
+    if (!passive) {
+      return;
+    }
+
+    this.client.removeEventHandler(passive.onUpdate, passive.newMessages);
+    this.client.removeEventHandler(passive.onUpdate, passive.editedMessages);
+    for (const timer of passive.settling.values()) {
+      clearTimeout(timer);
+    }
+    this.passive = null;
+    console.log('[TELEGRAM] Stopped listening for portfolio messages');
+  }
+
+  isListening(): boolean {
+    return this.passive !== null;
+  }
+
+  private onPassiveMessage(passive: ActivePassiveListener, message: Api.Message) {
+    const botId = message.senderId?.toString();
+    const bot = botId ? passive.bots.get(botId) : undefined;
+    if (!botId || !bot || !message.message) {
+      return;
+    }
+
+    // Restart the settle timer on every edit; only the final version counts
+    clearTimeout(passive.settling.get(message.id));
+    passive.settling.set(
+      message.id,
+      setTimeout(() => {
+        passive.settling.delete(message.id);
+        const botMessage = toBotMessage(message);
+        const deliver = () => {
+          passive.listener.onMessage(bot, botMessage).catch((error) => {
+            console.error('[TELEGRAM] Error handling pushed message:', error);
+          });
+        };
+
+        if (bot.adapter.parseTrade(botMessage) !== null) {
+          deliver();
+          return;
+        }
         if (
-          message.id > lastMessageId &&
-          message.senderId &&
-          message.senderId.toString() === entity.id.toString() &&
-          message.message
+          !bot.adapter.isPortfolioMessage(botMessage) ||
+          bot.adapter.isPendingMessage(botMessage) ||
+          this.lastCommandPageIds.get(botId)?.has(message.id)
         ) {
-          return message.message;
+          return;
         }
-      }
 
-      throw new Error('Timeout waiting for bot response');
-    } catch (error) {
-      console.error('[TELEGRAM] Error in sendPositionsCommand:', error);
-      throw new Error(
-        `Failed to get positions: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+        // Pages of a refresh in flight are saved by the refresh itself; wait
+        // until it has collected them to tell
+        const command = this.commandsInFlight.get(botId);
+        if (command) {
+          void command.done.then(() => {
+            if (!command.pageIds.has(message.id)) {
+              deliver();
+            }
+          });
+          return;
+        }
+        deliver();
+      }, LISTEN_SETTLE_MS)
+    );
   }
 
   async checkConnection(): Promise<boolean> {
@@ -133,36 +382,69 @@ export class TelegramPortfolioClient {
     return this.client.session.save() as unknown as string;
   }
 
+  getLastSuccessfulCallAt(): Date | null {
+    return this.lastSuccessfulCallAt;
+  }
+
+  // The account this session is logged in as
+  async getMe(): Promise<TelegramUser> {
+    await this.ensureConnected();
+    const me = await this.client.getMe();
+    return {
+      id: me.id.toString(),
+      firstName: me.firstName ?? null,
+      lastName: me.lastName ?? null,
+      username: me.username ?? null,
+      phone: me.phone ?? null,
+    };
+  }
+
+  // Revoke this session's authorization with Telegram, then disconnect
+  async logOut(): Promise<void> {
+    this.stopListening();
+    try {
+      await this.ensureConnected();
+      await this.client.invoke(new Api.auth.LogOut());
+    } finally {
+      await this.client.disconnect();
+    }
+  }
+
+  // The bot's messages among the last `limit` in the chat that `include`
+  // accepts; portfolio messages by default
   async fetchHistoricalMessages(
-    limit: number = 2000
-  ): Promise<Array<{ message: string; date: Date; id: number }>> {
+    bot: ConfiguredBot,
+    limit: number = 2000,
+    include: (message: BotMessage) => boolean = (message) =>
+      bot.adapter.isPortfolioMessage(message)
+  ): Promise<BotMessage[]> {
     await this.ensureConnected();
 
     try {
-      const entity = await this.client.getEntity(this.targetBotUsername);
+      const entity = await this.client.getEntity(bot.username);
       const messages = await this.client.getMessages(entity, { limit });
 
-      const portfolioMessages: Array<{ message: string; date: Date; id: number }> = [];
+      const portfolioMessages: BotMessage[] = [];
 
       for (const msg of messages) {
         if (
           msg.senderId &&
           msg.senderId.toString() === entity.id.toString() &&
-          msg.message &&
-          (msg.message.includes('Total Balance') || msg.message.includes('Positions('))
+          msg.message
         ) {
-          portfolioMessages.push({
-            message: msg.message,
-            date: msg.date ? new Date(msg.date * 1000) : new Date(),
-            id: msg.id,
-          });
+          const botMessage = toBotMessage(msg);
+          if (include(botMessage)) {
+            portfolioMessages.push(botMessage);
+          }
         }
       }
 
+      this.lastSuccessfulCallAt = new Date();
       return portfolioMessages;
     } catch (error) {
       throw new Error(
-        `Failed to fetch historical messages: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to fetch historical messages: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
       );
     }
   }
@@ -179,26 +461,61 @@ export class TelegramPortfolioClient {
 
 // Singleton instance for server-side use
 let telegramClient: TelegramPortfolioClient | null = null;
+// Passive listener to attach to whichever client is current
+let passiveListener: PassiveListener | null = null;
 
 export function getTelegramClient(): TelegramPortfolioClient | null {
   return telegramClient;
 }
 
+async function attachPassiveListener(client: TelegramPortfolioClient): Promise<void> {
+  try {
+    if (passiveListener) {
+      await client.startListening(passiveListener);
+    } else {
+      client.stopListening();
+    }
+  } catch (error) {
+    console.error('[TELEGRAM] Failed to attach passive listener:', error);
+  }
+}
+
 export function setTelegramClient(client: TelegramPortfolioClient | null): void {
+  telegramClient?.stopListening();
   telegramClient = client;
+  if (client && passiveListener) {
+    void attachPassiveListener(client);
+  }
+}
+
+// Turn passive listening on (or off with null); survives client reconnects
+export async function setPassiveListener(listener: PassiveListener | null): Promise<void> {
+  passiveListener = listener;
+  if (telegramClient) {
+    await attachPassiveListener(telegramClient);
+  }
 }
 
 export async function initializeTelegramClient(): Promise<TelegramPortfolioClient | null> {
   const apiId = process.env.TELEGRAM_API_ID;
   const apiHash = process.env.TELEGRAM_API_HASH;
-  const botUsername = process.env.TARGET_BOT_USERNAME;
 
-  // Try to get session from database first, fall back to env var
-  const dbSession = await getTelegramSession();
-  const envSession = process.env.TELEGRAM_SESSION;
+  // Try to get session from database first, fall back to env var. Either may
+  // be encrypted; a missing or unknown key is reported rather than thrown.
+  let dbSession: string | null;
+  let envSession: string | undefined;
+  try {
+    dbSession = await getTelegramSession();
+    envSession = process.env.TELEGRAM_SESSION
+      ? decryptSession(process.env.TELEGRAM_SESSION, getSessionKeys())
+      : undefined;
+  } catch (error) {
+    console.error('[TELEGRAM] Could not read session:', error);
+    return null;
+  }
   const session = dbSession || envSession;
 
-  if (!apiId || !apiHash || !botUsername) {
+  if (!apiId || !apiHash) {
     console.log('[TELEGRAM] Missing API credentials, skipping initialization');
     return null;
   }
@@ -215,15 +532,10 @@ export async function initializeTelegramClient(): Promise<TelegramPortfolioClien
   }
 
   try {
-    const client = new TelegramPortfolioClient(
-      parseInt(apiId, 10),
-      apiHash,
-      session,
-      botUsername
-    );
+    const client = new TelegramPortfolioClient(parseInt(apiId, 10), apiHash, session);
 
     await client.connect();
-    telegramClient = client;
+    setTelegramClient(client);
     console.log('[TELEGRAM] Client initialized and connected');
     return client;
   } catch (error) {
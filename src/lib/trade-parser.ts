@@ -0,0 +1,151 @@
+import { COPIED_FROM_PATTERN, isMarketUrl } from './parser';
+import type { BotMessage, ParsedTrade, TradeAction } from './types';
+
+// Portfolio replies mention buying and selling too; they're never trades
+const PORTFOLIO_PATTERN = /total balance|positions\s*\(\d+\)/i;
+
+// "Bought", "Sold", or a line starting with "Buy"/"Sell" ("🟢 BUY filled")
+const ACTION_PATTERN = /\b(bought|sold)\b|^\W*(buy|sell)\b/im;
+
+// "Bought 100 shares of Will it rain? (YES) at $0.42"
+const INLINE_TRADE_PATTERN =
+  /([\d,]+(?:\.\d+)?)\s+shares?\s+(?:of\s+)?(.+?)\s+(?:at|@)\s+\$?([\d.]+)\s*(¢|c\b)?/i;
+
+const SIDE_SUFFIX_PATTERN = /\s*[-–|(\[]?\s*\b(yes|no)\b\s*[)\]]?\s*$/i;
+
+// "💸 Amount: $42.00" style labelled lines
+const LABEL_PATTERN = /^[^\w]*([a-z][a-z ]*?)\s*:\s*(.+)$/i;
+
+function toNumber(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+// Prices are share prices between 0 and 1; some bots quote them in cents
+function toPrice(text: string, cents = /¢|\bc\b/.test(text)): number | null {
+  const value = toNumber(text);
+  if (value === null) {
+    return null;
+  }
+  return cents || value > 1 ? value / 100 : value;
+}
+
+function normalizeSide(text: string): string {
+  return /\bno\b/i.test(text) ? 'No' : 'Yes';
+}
+
+function findMarketUrl(message: BotMessage): string | null {
+  const urls = [
+    ...message.entities.map((entity) => entity.url),
+    ...message.buttons.flat().map((button) => button.url),
+  ];
+  return urls.find((url): url is string => !!url && isMarketUrl(url)) ?? null;
+}
+
+// Parse a buy/sell notification, or return null when the message isn't one.
+// Both the labelled multi-line format ("Shares: 100", "Price: $0.42") and a
+// one-line summary ("Bought 100 shares of ... at $0.42") are understood.
+export function parseTradeNotification(message: BotMessage): ParsedTrade | null {
+  const text = message.text.replace(/−/g, '-');
+  if (PORTFOLIO_PATTERN.test(text)) {
+    return null;
+  }
+
+  const actionMatch = text.match(ACTION_PATTERN);
+  if (!actionMatch) {
+    return null;
+  }
+  const actionWord = (actionMatch[1] ?? actionMatch[2]).toLowerCase();
+  const action: TradeAction = actionWord === 'bought' || actionWord === 'buy' ? 'buy' : 'sell';
+
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const actionLine = lines.find((line) => ACTION_PATTERN.test(line)) ?? '';
+
+  let marketQuestion: string | null = null;
+  let side: string | null = null;
+  let shares: number | null = null;
+  let price: number | null = null;
+  let amount: number | null = null;
+  let copiedFrom: string | null = null;
+
+  const inline = text.match(INLINE_TRADE_PATTERN);
+  if (inline) {
+    shares = toNumber(inline[1]);
+    price = toPrice(inline[3], !!inline[4]);
+    const sideMatch = inline[2].match(SIDE_SUFFIX_PATTERN);
+    if (sideMatch) {
+      side = normalizeSide(sideMatch[1]);
+    }
+    marketQuestion = inline[2].replace(SIDE_SUFFIX_PATTERN, '').trim();
+  }
+
+  for (const line of lines) {
+    if (COPIED_FROM_PATTERN.test(line)) {
+      copiedFrom =
+        line
+          .replace(/^.*?(copied from|copy trade by|copying)\s*:?\s*/i, '')
+          .replace(/[.,;]+$/, '')
+          .trim() || null;
+      continue;
+    }
+
+    const labelled = line.match(LABEL_PATTERN);
+    if (!labelled) {
+      continue;
+    }
+    const [, label, value] = labelled;
+    const key = label.toLowerCase();
+
+    if (key === 'market' || key === 'question') {
+      marketQuestion = value.trim();
+    } else if (key === 'side' || key === 'outcome') {
+      side = normalizeSide(value);
+    } else if (key === 'shares' || key === 'size') {
+      shares = toNumber(value);
+    } else if (key === 'price' || key === 'avg price' || key === 'entry') {
+      price = toPrice(value);
+    } else if (key === 'amount' || key === 'total' || key === 'cost' || key === 'value') {
+      amount = toNumber(value);
+    }
+  }
+
+  // Multi-line notifications without a "Market:" label put the question on a
+  // line of its own
+  if (!marketQuestion) {
+    const questionLine = lines.find(
+      (line) => line !== actionLine && line.includes('?') && !LABEL_PATTERN.test(line)
+    );
+    marketQuestion = questionLine?.replace(/^[^\w"“']+/, '').trim() ?? null;
+  }
+
+  if (!side) {
+    const sideMatch = actionLine.match(/\b(yes|no)\b/i);
+    side = sideMatch ? normalizeSide(sideMatch[1]) : 'Yes';
+  }
+
+  if (!marketQuestion || !shares || !price) {
+    return null;
+  }
+
+  // "for $42.00" / "($42.00)" on the summary line
+  if (amount === null && inline) {
+    const total = text.slice((inline.index ?? 0) + inline[0].length).match(/\$\s?([\d,]+\.\d+)/);
+    amount = total ? toNumber(total[1]) : null;
+  }
+
+  return {
+    action,
+    marketQuestion,
+    side,
+    shares,
+    price,
+    amount: amount ?? Math.round(shares * price * 100) / 100,
+    copiedFrom,
+    marketUrl: findMarketUrl(message),
+    timestamp: message.date.toISOString(),
+    telegramMessageId: message.id,
+  };
+}
@@ -0,0 +1,153 @@
+import { buildClosedPositions, type LedgerSnapshot } from './ledger';
+import type { ClosedPosition, TraderHistoryPoint, TraderStats } from './types';
+
+type CopiedClosedPosition = ClosedPosition & { copiedFrom: string };
+
+interface TraderTotals {
+  openPositions: number;
+  exposure: number;
+  unrealisedPnl: number;
+}
+
+function totalsByTrader(snapshot: LedgerSnapshot): Map<string, TraderTotals> {
+  const totals = new Map<string, TraderTotals>();
+  for (const position of snapshot.positions) {
+    if (!position.copiedFrom) continue;
+    const current = totals.get(position.copiedFrom) ?? {
+      openPositions: 0,
+      exposure: 0,
+      unrealisedPnl: 0,
+    };
+    current.openPositions++;
+    // Fall back to current value when the bot didn't report invested
+    current.exposure += position.invested || position.value;
+    current.unrealisedPnl += position.pnlUsd;
+    totals.set(position.copiedFrom, current);
+  }
+  return totals;
+}
+
+function copiedClosedPositions(snapshots: LedgerSnapshot[]): CopiedClosedPosition[] {
+  return buildClosedPositions(snapshots)
+    .filter((position): position is CopiedClosedPosition => !!position.copiedFrom)
+    .sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+}
+
+function addTotals(target: TraderTotals, totals: TraderTotals) {
+  target.openPositions += totals.openPositions;
+  target.exposure += totals.exposure;
+  target.unrealisedPnl += totals.unrealisedPnl;
+}
+
+// Walk the snapshots in order and report every trader's combined totals after
+// each one, carrying every account's latest positions forward like the
+// combined balance chart. Realised PnL counts closes up to that snapshot.
+function walkTraderTotals(
+  snapshots: LedgerSnapshot[],
+  closed: CopiedClosedPosition[],
+  onSnapshot: (
+    timestamp: string,
+    totals: Map<string, TraderTotals>,
+    realised: Map<string, number>
+  ) => void
+): Map<number | null, Map<string, TraderTotals>> {
+  const latestByAccount = new Map<number | null, Map<string, TraderTotals>>();
+  const realised = new Map<string, number>();
+  let nextClose = 0;
+
+  for (const snapshot of snapshots) {
+    latestByAccount.set(snapshot.accountId, totalsByTrader(snapshot));
+
+    while (nextClose < closed.length && closed[nextClose].closedAt <= snapshot.timestamp) {
+      const { copiedFrom, realisedPnl } = closed[nextClose++];
+      realised.set(copiedFrom, (realised.get(copiedFrom) ?? 0) + realisedPnl);
+    }
+
+    const totals = new Map<string, TraderTotals>();
+    for (const accountTotals of latestByAccount.values()) {
+      for (const [trader, traderTotals] of accountTotals) {
+        const combined = totals.get(trader) ?? { openPositions: 0, exposure: 0, unrealisedPnl: 0 };
+        addTotals(combined, traderTotals);
+        totals.set(trader, combined);
+      }
+    }
+
+    onSnapshot(snapshot.timestamp, totals, realised);
+  }
+
+  return latestByAccount;
+}
+
+// Leaderboard of copied traders. Open positions come from each account's
+// latest snapshot and closed ones from the realised PnL ledger; drawdown
+// follows each trader's total PnL snapshot by snapshot.
+export function buildTraderStats(snapshots: LedgerSnapshot[]): TraderStats[] {
+  const closed = copiedClosedPositions(snapshots);
+  const peaks = new Map<string, number>();
+  const drawdowns = new Map<string, number>();
+
+  const latestByAccount = walkTraderTotals(snapshots, closed, (_timestamp, totals, realised) => {
+    for (const trader of new Set([...totals.keys(), ...realised.keys()])) {
+      const total = (realised.get(trader) ?? 0) + (totals.get(trader)?.unrealisedPnl ?? 0);
+      const peak = Math.max(peaks.get(trader) ?? 0, total);
+      peaks.set(trader, peak);
+      drawdowns.set(trader, Math.max(drawdowns.get(trader) ?? 0, peak - total));
+    }
+  });
+
+  const traders = new Set([...peaks.keys(), ...closed.map((position) => position.copiedFrom)]);
+
+  return [...traders].map((trader) => {
+    const open = { openPositions: 0, exposure: 0, unrealisedPnl: 0 };
+    for (const accountTotals of latestByAccount.values()) {
+      const totals = accountTotals.get(trader);
+      if (totals) {
+        addTotals(open, totals);
+      }
+    }
+
+    const traderClosed = closed.filter((position) => position.copiedFrom === trader);
+    const wins = traderClosed.filter((position) => position.realisedPnl > 0).length;
+
+    return {
+      trader,
+      ...open,
+      realisedPnl: traderClosed.reduce((sum, position) => sum + position.realisedPnl, 0),
+      closedPositions: traderClosed.length,
+      winRate: traderClosed.length > 0 ? (wins / traderClosed.length) * 100 : null,
+      avgReturnPct:
+        traderClosed.length > 0
+          ? traderClosed.reduce((sum, position) => sum + position.returnPct, 0) / traderClosed.length
+          : null,
+      maxDrawdown: drawdowns.get(trader) ?? 0,
+    };
+  });
+}
+
+// Invested and PnL curves for one trader, one point per snapshot from the
+// first time they appear
+export function buildTraderHistory(
+  snapshots: LedgerSnapshot[],
+  trader: string
+): TraderHistoryPoint[] {
+  const history: TraderHistoryPoint[] = [];
+
+  walkTraderTotals(snapshots, copiedClosedPositions(snapshots), (timestamp, totals, realised) => {
+    const traderTotals = totals.get(trader);
+    const realisedPnl = realised.get(trader) ?? 0;
+    if (!traderTotals && history.length === 0 && realisedPnl === 0) {
+      return;
+    }
+
+    const unrealisedPnl = traderTotals?.unrealisedPnl ?? 0;
+    history.push({
+      timestamp,
+      invested: traderTotals?.exposure ?? 0,
+      unrealisedPnl,
+      realisedPnl,
+      totalPnl: realisedPnl + unrealisedPnl,
+    });
+  });
+
+  return history;
+}
@@ -1,7 +1,33 @@
-import type { PortfolioSnapshot, Position, CopyTradingEvent } from '@/generated/prisma/client';
+import type {
+  Account,
+  Market,
+  PortfolioSnapshot,
+  Position,
+  CopyTradingEvent,
+  PortfolioEvent,
+  RawMessage,
+  RefreshRun,
+  Trade,
+  User,
+  ApiToken,
+  PendingAuth,
+} from '@/generated/prisma/client';
 
 // Re-export Prisma types for convenience
-export type { PortfolioSnapshot, Position, CopyTradingEvent };
+export type {
+  Account,
+  Market,
+  PortfolioSnapshot,
+  Position,
+  CopyTradingEvent,
+  PortfolioEvent,
+  RawMessage,
+  RefreshRun,
+  Trade,
+  User,
+  ApiToken,
+  PendingAuth,
+};
 
 // Snapshot with positions included
 export type PortfolioSnapshotWithPositions = PortfolioSnapshot & {
@@ -9,14 +35,222 @@ export type PortfolioSnapshotWithPositions = PortfolioSnapshot & {
 };
 
 // Input types for creating records (without id)
-export type PortfolioSnapshotInput = Omit<PortfolioSnapshot, 'id' | 'positions'>;
+export type PortfolioSnapshotInput = Omit<
+  PortfolioSnapshot,
+  'id' | 'positions' | 'parseConfidence' | 'parseWarnings' | 'accountId'
+>;
 export type PositionInput = Omit<Position, 'id' | 'snapshot'>;
 export type CopyTradingEventInput = Omit<CopyTradingEvent, 'id'>;
+export type PortfolioEventInput = Omit<PortfolioEvent, 'id'>;
+export type AccountInput = Pick<Account, 'name' | 'botUsername' | 'adapter'>;
+export type TradeInput = Omit<Trade, 'id'>;
+
+// Users and API tokens as shown to the dashboard, without their hashes
+export type DashboardUser = Pick<User, 'id' | 'username' | 'createdAt'>;
+export type ApiTokenInfo = Omit<ApiToken, 'tokenHash'>;
+
+// Snapshot with the archived bot messages it was parsed from
+export type PortfolioSnapshotWithRawMessages = PortfolioSnapshot & {
+  rawMessages: RawMessage[];
+  account: Account | null;
+};
+
+// Formatting entity from a Telegram message (offsets are UTF-16 code units,
+// same as JS string indices). `url` is set for links, including plain URLs.
+export interface BotMessageEntity {
+  type: string;
+  offset: number;
+  length: number;
+  url: string | null;
+}
+
+// Inline keyboard button attached to a bot message
+export interface BotMessageButton {
+  text: string;
+  url: string | null;
+}
+
+// Structured bot message: text plus entities and inline keyboard rows
+export interface BotMessage {
+  id: number;
+  date: Date;
+  text: string;
+  entities: BotMessageEntity[];
+  buttons: BotMessageButton[][];
+}
+
+// Problem the parser noticed while reading a bot message
+export interface ParseWarning {
+  code:
+    | 'missing_total_balance'
+    | 'position_count_mismatch'
+    | 'position_sum_mismatch'
+    | 'unrecognised_line';
+  message: string;
+  line?: string;
+}
+
+// Kind of change recorded in portfolio_events
+export type PositionEventType =
+  | 'position_opened'
+  | 'position_closed'
+  | 'position_resolved'
+  | 'position_increased'
+  | 'position_decreased'
+  | 'side_flipped';
+
+// Kind of change recorded in copy_trading_events
+export type CopierEventType = 'copier_added' | 'copier_removed';
+
+// An entry in the activity timeline: a position change or a copied trader
+// being added or removed
+export type TimelineEvent =
+  | (PortfolioEvent & { kind: 'position' })
+  | (CopyTradingEvent & { kind: 'copier' });
 
-// Parsed portfolio from Telegram bot message
+export type TradeAction = 'buy' | 'sell';
+
+// Trade notification from the bot ("Bought 100 shares of ... at $0.42")
+export type ParsedTrade = Omit<TradeInput, 'accountId' | 'marketId' | 'action'> & {
+  action: TradeAction;
+};
+
+// Parsed portfolio from Telegram bot message. `confidence` runs from 0 (matched
+// nothing) to 1 (no warnings).
 export interface ParsedPortfolio {
   snapshot: PortfolioSnapshotInput;
-  positions: Omit<PositionInput, 'snapshotId'>[];
+  positions: Omit<PositionInput, 'snapshotId' | 'accountId' | 'marketId'>[];
+  warnings: ParseWarning[];
+  confidence: number;
+}
+
+// How a closed position ended: its market resolved for or against it, or it
+// was sold (or otherwise disappeared) before resolution
+export type ClosedPositionOutcome = 'won' | 'lost' | 'closed';
+
+// A position from first to last sighting, realised at its last seen value
+export interface ClosedPosition {
+  accountId: number | null;
+  marketId: number | null;
+  marketQuestion: string;
+  side: string;
+  copiedFrom: string | null;
+  openedAt: string;
+  closedAt: string;
+  invested: number;
+  exitValue: number;
+  realisedPnl: number;
+  returnPct: number;
+  outcome: ClosedPositionOutcome;
+  holdingMs: number;
+}
+
+// Cumulative realised PnL after each close
+export interface RealisedPnlPoint {
+  timestamp: string;
+  realisedPnl: number;
+  cumulativePnl: number;
+}
+
+// Performance of a copied trader across every account copying them. Win rate
+// and average return are null until one of their positions has closed.
+export interface TraderStats {
+  trader: string;
+  openPositions: number;
+  exposure: number;
+  unrealisedPnl: number;
+  realisedPnl: number;
+  closedPositions: number;
+  winRate: number | null;
+  avgReturnPct: number | null;
+  // Largest drop in total (realised + unrealised) PnL from its previous peak
+  maxDrawdown: number;
+}
+
+// A copied trader's totals at one snapshot
+export interface TraderHistoryPoint {
+  timestamp: string;
+  invested: number;
+  unrealisedPnl: number;
+  realisedPnl: number;
+  totalPnl: number;
+}
+
+// Auto-refresh configuration, stored in app_settings. Quiet hours are
+// "HH:MM" in server time and may wrap past midnight; null disables them.
+export interface SchedulerSettings {
+  enabled: boolean;
+  refreshIntervalMinutes: number;
+  healthCheckIntervalMinutes: number;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  // Ingest portfolio messages the bots post on their own
+  passiveListening: boolean;
+}
+
+export interface SchedulerRunSummary {
+  startedAt: string;
+  finishedAt: string;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  error: string | null;
+}
+
+export interface SchedulerStatus {
+  running: boolean;
+  inQuietHours: boolean;
+  nextRunAt: string | null;
+  lastRun: SchedulerRunSummary | null;
+  pause: RefreshPause | null;
+}
+
+// What started a refresh run and how it ended (refresh_runs)
+export type RefreshTrigger = 'scheduler' | 'manual' | 'backfill';
+export type RefreshRunOutcome = 'running' | 'success' | 'partial' | 'failed';
+
+// Telegram failures that call for different handling: FLOOD_WAIT (Telegram
+// says how long to back off), a bot that doesn't answer, network trouble and
+// a lost session
+export type TelegramErrorKind = 'flood_wait' | 'bot_unresponsive' | 'network' | 'auth' | 'other';
+
+// Refreshes held back by FLOOD_WAIT or the circuit breaker until `until`
+export interface RefreshPause {
+  until: string;
+  kind: TelegramErrorKind;
+  reason: string;
+}
+
+// Overall refresh health for the header indicator. `failing` when the last
+// few runs all failed, `stale` when nothing succeeded for too long, `paused`
+// while backing off.
+export interface RefreshHealth {
+  status: 'ok' | 'failing' | 'stale' | 'paused' | 'unknown';
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  pause: RefreshPause | null;
+}
+
+// Where a Telegram login in progress (PendingAuth.step) has got to
+export type AuthStep = 'phone' | 'qr' | 'code' | 'password';
+
+// The Telegram account the dashboard's session is logged in as
+export interface TelegramUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  username: string | null;
+  phone: string | null;
+}
+
+// The Telegram session for the session page. `source` is where the session
+// was read from; `lastSuccessfulCallAt` is since the server started.
+export interface TelegramSessionInfo {
+  source: 'database' | 'environment' | null;
+  connected: boolean;
+  user: TelegramUser | null;
+  createdAt: string | null;
+  lastSuccessfulCallAt: string | null;
+  error: string | null;
 }
 
 // Balance history item for charts
@@ -33,5 +267,33 @@ export interface InvestedByTrader {
   invested: number;
 }
 
+// One data point of a position's lifecycle (one snapshot)
+export interface PositionHistoryPoint {
+  snapshotId: number;
+  timestamp: string;
+  entryPrice: number;
+  invested: number;
+  shares: number;
+  value: number;
+  pnlUsd: number;
+  pnlPct: number;
+}
+
+// A position in one market, for one account and side, from the first
+// snapshot it appeared in until it disappeared. `closedAt` is the first
+// snapshot without it, or null while it's still open.
+export interface PositionLifecycle {
+  accountId: number | null;
+  side: string;
+  openedAt: string;
+  closedAt: string | null;
+  points: PositionHistoryPoint[];
+}
+
+export interface MarketHistory {
+  market: Market;
+  lifecycles: PositionLifecycle[];
+}
+
 // Time range options for balance history
 export type TimeRange = '24h' | '48h' | '3d' | '7d' | 'all';
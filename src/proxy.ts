@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getRequestUser, verifyApiToken } from '@/lib/access';
+
+// Reachable without signing in
+const PUBLIC_PATHS = new Set(['/login', '/api/login']);
+
+// API tokens are read-only, and can't be used to manage users, tokens or
+// the Telegram login
+const READ_METHODS = new Set(['GET', 'HEAD']);
+const SESSION_ONLY_PREFIXES = ['/api/tokens', '/api/users', '/api/auth'];
+
+function unauthorized(error: string, status: number) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+// Every page and API route requires a signed-in session, except API reads
+// with a bearer token
+export async function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (PUBLIC_PATHS.has(pathname)) {
+    return NextResponse.next();
+  }
+
+  if (await getRequestUser(request)) {
+    return NextResponse.next();
+  }
+
+  const isApi = pathname.startsWith('/api/');
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+  if (isApi && bearer) {
+    if (!(await verifyApiToken(bearer))) {
+      return unauthorized('Invalid or revoked API token', 401);
+    }
+    if (
+      !READ_METHODS.has(request.method) ||
+      SESSION_ONLY_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+    ) {
+      return unauthorized('API tokens are read-only', 403);
+    }
+    return NextResponse.next();
+  }
+
+  if (isApi) {
+    return unauthorized('Not signed in', 401);
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  if (pathname !== '/') {
+    loginUrl.searchParams.set('next', pathname + request.nextUrl.search);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};